@@ -0,0 +1,98 @@
+import { renderIsometricView } from './thumbnails';
+import {
+  ArchiveEntry,
+  PackageDesign,
+  encodePng,
+  escapeXml,
+  generateContentTypes,
+  generateRootRels,
+  meshXml,
+  metadataXml,
+  objectName,
+  packageDate,
+  platePosition,
+} from './3mf-package';
+
+// Standard 3MF with no slicer-specific files: one base material per filament, referenced by
+// every object through pid/pindex. Slicers that read 3MF materials (Cura, PrusaSlicer,
+// Windows 3D Builder) show each object in its filament color.
+
+export async function createCoreEntries(design: PackageDesign): Promise<ArchiveEntry[]> {
+  return [
+    { name: '[Content_Types].xml', content: generateContentTypes() },
+    { name: '_rels/.rels', content: generateRootRels('/Metadata/thumbnail.png') },
+    { name: 'Metadata/thumbnail.png', content: await encodePng(renderIsometricView(design.objects, 256)) },
+    { name: '3D/3dmodel.model', content: generateModel(design) },
+  ];
+}
+
+// 3MF display colors are #RRGGBBAA
+function displayColor(hex: string): string {
+  return `${hex.toUpperCase()}FF`;
+}
+
+function generateModel(design: PackageDesign): string {
+  const dateStr = packageDate(design);
+
+  // One material per distinct filament, in order of first use
+  const materials: { name: string; color: string }[] = [];
+  const materialIndices = design.objects.map((object, i) => {
+    const name = objectName(object, i);
+    let index = materials.findIndex((material) => material.name === name);
+    if (index < 0) {
+      index = materials.length;
+      materials.push({ name, color: object.filament?.hex ?? object.color });
+    }
+    return index;
+  });
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+${metadataXml(design)} <metadata name="Application">img-to-3mf</metadata>
+ <metadata name="CreationDate">${dateStr}</metadata>
+ <resources>
+  <basematerials id="1">
+`;
+  for (const material of materials) {
+    xml += `   <base name="${escapeXml(material.name)}" displaycolor="${displayColor(material.color)}"/>\n`;
+  }
+  xml += `  </basematerials>
+`;
+
+  // Colored objects are numbered from 2, after the materials
+  for (let i = 0; i < design.objects.length; i++) {
+    const object = design.objects[i];
+    xml += `  <object id="${i + 2}" name="${escapeXml(objectName(object, i))}" type="model" pid="1" pindex="${materialIndices[i]}">
+${meshXml(object.mesh, '   ')}  </object>
+`;
+  }
+
+  // A multi-part object is an assembly of its colored objects
+  const buildIds = design.groups.map((parts, g) => (parts.length > 1 ? design.objects.length + 2 + g : parts[0] + 2));
+  for (let g = 0; g < design.groups.length; g++) {
+    const parts = design.groups[g];
+    if (parts.length === 1) continue;
+
+    xml += `  <object id="${buildIds[g]}" name="${escapeXml(design.name)}" type="model">
+   <components>
+`;
+    for (const i of parts) {
+      xml += `    <component objectid="${i + 2}"/>\n`;
+    }
+    xml += `   </components>
+  </object>
+`;
+  }
+
+  xml += ` </resources>
+ <build>
+`;
+  for (let g = 0; g < buildIds.length; g++) {
+    const { x, y } = platePosition(design, g);
+    xml += `  <item objectid="${buildIds[g]}" transform="1 0 0 0 1 0 0 0 1 ${x} ${y} 0"/>\n`;
+  }
+  xml += ` </build>
+</model>`;
+
+  return xml;
+}
@@ -0,0 +1,192 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import archiver from 'archiver';
+import { v4 as uuidv4 } from 'uuid';
+import { Jimp } from 'jimp';
+import { ColoredObject, MeshObject } from './3mf';
+import { ColorChangePlan } from './color-change';
+import { MetadataConfig } from './config';
+import { filamentLabel } from './filaments';
+import { RawImage } from './thumbnails';
+import { PrinterProfile } from './printers';
+
+// Shared building blocks of the 3MF writers for every output profile
+
+// Archive entries are built in memory and streamed into the ZIP
+export interface ArchiveEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+// The design as every profile writes it, worked out once by the writer
+export interface PackageDesign {
+  objects: ColoredObject[];
+  groups: number[][]; // top-level objects, each listing the objects that are its parts
+  extruders: number[]; // extruder (1-based) of every object
+  slots: (ColoredObject | undefined)[]; // object whose filament is loaded in every extruder slot
+  plates: PlateLayout[];
+  name: string;
+  printer: PrinterProfile;
+  metadata: MetadataConfig;
+  date: Date; // creation date written into the package
+  deterministic: boolean; // UUIDs from content hashes instead of random ones
+  colorChangePlan?: ColorChangePlan;
+}
+
+// Top-level objects printed on one plate, centered on it as one block: the rectangle from
+// (x, y) of width x height mm in mesh coordinates
+export interface PlateLayout {
+  name?: string;
+  groups: number[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export async function encodePng(image: RawImage): Promise<Buffer> {
+  return await Jimp.fromBitmap(image).getBuffer('image/png');
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Creation date as written into models: YYYY-MM-DD
+export function packageDate(design: PackageDesign): string {
+  return design.date.toISOString().split('T')[0];
+}
+
+// Random UUID, or in deterministic mode one hashed from the content (laid out as a version 5 UUID)
+export function contentUuid(design: PackageDesign, content: string): string {
+  if (!design.deterministic) return uuidv4();
+
+  const hash = crypto.createHash('sha1').update(content).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.toString('hex', 0, 16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Standard 3MF metadata: the title (default: the design name) and any project information set
+export function metadataXml(design: PackageDesign): string {
+  const { metadata } = design;
+  const entries: [string, string | undefined][] = [
+    ['Title', metadata.title ?? design.name],
+    ['Designer', metadata.designer],
+    ['Description', metadata.description],
+    ['Copyright', metadata.copyright],
+    ['LicenseTerms', metadata.license],
+  ];
+  return entries
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` <metadata name="${name}">${escapeXml(value!)}</metadata>\n`)
+    .join('');
+}
+
+// Name shown for an object in the slicer
+export function objectName(object: ColoredObject, index: number): string {
+  return object.filament ? filamentLabel(object.filament) : object.filamentName || `Color${index + 1}`;
+}
+
+// Plates are laid out like Bambu Studio does: a grid of ceil(sqrt(n)) columns, a fifth of a
+// plate apart, rows going towards -y
+function plateOrigin(design: PackageDesign, plateIndex: number): { x: number; y: number } {
+  const columns = Math.ceil(Math.sqrt(design.plates.length));
+  const column = plateIndex % columns;
+  const row = Math.floor(plateIndex / columns);
+  return {
+    x: column * design.printer.plateWidth * 1.2,
+    y: -row * design.printer.plateDepth * 1.2,
+  };
+}
+
+// Where a top-level object's origin goes: its plate's block centered on that plate
+export function platePosition(design: PackageDesign, group: number): { x: number; y: number } {
+  const plateIndex = design.plates.findIndex((plate) => plate.groups.includes(group));
+  const plate = design.plates[plateIndex];
+  const origin = plateOrigin(design, plateIndex);
+  return {
+    x: origin.x + (design.printer.plateWidth - plate.width) / 2 - plate.x,
+    y: origin.y + (design.printer.plateDepth - plate.height) / 2 - plate.y,
+  };
+}
+
+// <mesh> element of a 3MF object, indented to sit inside it
+export function meshXml(mesh: MeshObject, indent: string): string {
+  let xml = `${indent}<mesh>
+${indent} <vertices>
+`;
+
+  for (const v of mesh.vertices) {
+    xml += `${indent}  <vertex x="${v.x}" y="${v.y}" z="${v.z}"/>\n`;
+  }
+
+  xml += `${indent} </vertices>
+${indent} <triangles>
+`;
+
+  for (const t of mesh.triangles) {
+    xml += `${indent}  <triangle v1="${t.v1}" v2="${t.v2}" v3="${t.v3}"/>\n`;
+  }
+
+  xml += `${indent} </triangles>
+${indent}</mesh>
+`;
+  return xml;
+}
+
+export function generateContentTypes(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+ <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+ <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+ <Default Extension="png" ContentType="image/png"/>
+</Types>`;
+}
+
+// Package relationships for a single model part with a thumbnail
+export function generateRootRels(thumbnailPath: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+ <Relationship Target="/3D/3dmodel.model" Id="rel-1" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+ <Relationship Target="${thumbnailPath}" Id="rel-2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail"/>
+</Relationships>`;
+}
+
+// Stream the entries into the output file; a partial file is removed if writing fails
+// With a date the archive is reproducible: entries in name order ([Content_Types].xml first)
+// and all stamped with that date.
+export async function writeZipArchive(entries: ArchiveEntry[], outputPath: string, date?: Date): Promise<void> {
+  const ordered = date ? entries.slice().sort((a, b) => compareEntryNames(a.name, b.name)) : entries;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(outputPath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
+
+      output.on('close', () => resolve());
+      output.on('error', (err) => reject(err));
+      archive.on('error', (err) => reject(err));
+
+      archive.pipe(output);
+      for (const entry of ordered) {
+        archive.append(entry.content, { name: entry.name, date });
+      }
+      archive.finalize();
+    });
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+}
+
+function compareEntryNames(a: string, b: string): number {
+  const rank = (name: string) => (name === '[Content_Types].xml' ? 0 : 1);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,143 @@
+import { ColoredObject, MeshObject } from './3mf';
+import { mergeMeshes } from './mesher';
+import { renderIsometricView } from './thumbnails';
+import { ColorChangePlan } from './color-change';
+import {
+  ArchiveEntry,
+  PackageDesign,
+  encodePng,
+  escapeXml,
+  generateContentTypes,
+  generateRootRels,
+  meshXml,
+  metadataXml,
+  objectName,
+  packageDate,
+  platePosition,
+} from './3mf-package';
+
+// PrusaSlicer package: every object's mesh inline in the model, with its volumes (the colors)
+// given as triangle ranges and extruders in Slic3r_PE_model.config
+
+export async function createPrusaEntries(design: PackageDesign): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [
+    { name: '[Content_Types].xml', content: generateContentTypes() },
+    { name: '_rels/.rels', content: generateRootRels('/Metadata/thumbnail.png') },
+    { name: 'Metadata/thumbnail.png', content: await encodePng(renderIsometricView(design.objects, 256)) },
+  ];
+
+  // Top-level objects are numbered from 1, their parts merged into one mesh
+  const meshes = design.groups.map((parts) => mergeMeshes(parts.map((i) => design.objects[i].mesh)));
+  entries.push({ name: '3D/3dmodel.model', content: generateModel(design, meshes) });
+  entries.push({ name: 'Metadata/Slic3r_PE_model.config', content: generateModelConfig(design) });
+  entries.push({ name: 'Metadata/Slic3r_PE.config', content: generateProjectConfig(design.slots) });
+
+  // Filament changes for single-extruder printing
+  if (design.colorChangePlan) {
+    entries.push({
+      name: 'Metadata/Prusa_Slicer_custom_gcode_per_print_z.xml',
+      content: generateCustomGcodePerPrintZ(design.colorChangePlan),
+    });
+  }
+
+  return entries;
+}
+
+function designObjectName(design: PackageDesign, parts: number[]): string {
+  return parts.length > 1 ? design.name : objectName(design.objects[parts[0]], parts[0]);
+}
+
+function generateModel(design: PackageDesign, meshes: MeshObject[]): string {
+  const dateStr = packageDate(design);
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:slic3rpe="http://schemas.slic3r.org/3mf/2017/06">
+ <metadata name="slic3rpe:Version3mf">1</metadata>
+${metadataXml(design)} <metadata name="Application">img-to-3mf</metadata>
+ <metadata name="CreationDate">${dateStr}</metadata>
+ <resources>
+`;
+
+  for (let g = 0; g < design.groups.length; g++) {
+    xml += `  <object id="${g + 1}" name="${escapeXml(designObjectName(design, design.groups[g]))}" type="model">
+${meshXml(meshes[g], '   ')}  </object>
+`;
+  }
+
+  xml += ` </resources>
+ <build>
+`;
+  for (let g = 0; g < design.groups.length; g++) {
+    const { x, y } = platePosition(design, g);
+    xml += `  <item objectid="${g + 1}" transform="1 0 0 0 1 0 0 0 1 ${x} ${y} 0" printable="1"/>\n`;
+  }
+  xml += ` </build>
+</model>`;
+
+  return xml;
+}
+
+// Object names and a volume per part covering its triangles in the merged mesh
+function generateModelConfig(design: PackageDesign): string {
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+`;
+
+  for (let g = 0; g < design.groups.length; g++) {
+    const parts = design.groups[g];
+    xml += ` <object id="${g + 1}" instances_count="1">
+  <metadata type="object" key="name" value="${escapeXml(designObjectName(design, parts))}"/>
+  <metadata type="object" key="extruder" value="${design.extruders[parts[0]]}"/>
+`;
+
+    let firstId = 0;
+    for (const i of parts) {
+      const object: ColoredObject = design.objects[i];
+      const lastId = firstId + object.mesh.triangles.length - 1;
+      xml += `  <volume firstid="${firstId}" lastid="${lastId}">
+   <metadata type="volume" key="name" value="${escapeXml(objectName(object, i))}"/>
+   <metadata type="volume" key="volume_type" value="ModelPart"/>
+   <metadata type="volume" key="matrix" value="1 0 0 0 0 1 0 0 0 0 1 0 0 0 0 1"/>
+   <metadata type="volume" key="extruder" value="${design.extruders[i]}"/>
+   <mesh edges_fixed="0" degenerate_facets="0" facets_removed="0" facets_reversed="0" backwards_edges="0"/>
+  </volume>
+`;
+      firstId = lastId + 1;
+    }
+
+    xml += ` </object>
+`;
+  }
+
+  xml += `</config>`;
+  return xml;
+}
+
+// Only the extruder and filament colors; the printer, print and filament presets stay
+// whatever is selected in PrusaSlicer. Empty slots are white.
+function generateProjectConfig(slots: (ColoredObject | undefined)[]): string {
+  const colors = slots.map((object) => (object?.filament?.hex ?? object?.color ?? '#FFFFFF').toUpperCase()).join(';');
+  return `; generated by img-to-3mf
+
+; extruder_colour = ${colors}
+; filament_colour = ${colors}
+`;
+}
+
+// PrusaSlicer layer changes: type 0 is a color change (M600), type 1 a pause (M601)
+function generateCustomGcodePerPrintZ(plan: ColorChangePlan): string {
+  const type = plan.command === 'pause' ? 1 : 0;
+  const gcode = plan.command === 'pause' ? 'M601' : 'M600';
+
+  let xml = `<?xml version="1.0" encoding="utf-8"?>
+<custom_gcodes_per_print_z>
+`;
+  for (const change of plan.changes) {
+    const extra = plan.command === 'pause' ? escapeXml(`Load ${change.label}`) : '';
+    xml += `<code print_z="${Number(change.z.toFixed(4))}" type="${type}" extruder="1" color="${escapeXml(change.color)}" extra="${extra}" gcode="${gcode}"/>
+`;
+  }
+  xml += `<mode value="SingleExtruder"/>
+</custom_gcodes_per_print_z>`;
+  return xml;
+}
@@ -0,0 +1,401 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import sax from 'sax';
+import unzipper from 'unzipper';
+import { MeshObject } from './3mf';
+import { mergeMeshes } from './mesher';
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const PRODUCTION_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/production/2015/06';
+const MATERIAL_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/material/2015/02';
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+const DEFAULT_ROOT_MODEL = '/3D/3dmodel.model';
+
+// Size of one model unit in mm
+const UNIT_SCALE: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+// 3MF affine transform: 12 numbers, the first 9 a row-major 3x3 matrix applied to row
+// vectors and the last 3 the translation (x' = x*m0 + y*m3 + z*m6 + m9, ...)
+export type Transform3MF = number[];
+
+export const IDENTITY_TRANSFORM: Transform3MF = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+// One build item of a 3MF file
+export interface ThreeMFObject {
+  id: number; // object id in the root model
+  name?: string;
+  type: string; // "model", "support", ...
+  mesh: MeshObject; // components resolved, in the object's own coordinates (mm)
+  transform: Transform3MF; // build item transform
+  color?: string; // from the object's material or color properties, else its slicer extruder's filament
+  material?: string; // base material name
+  extruder?: number; // extruder assigned in Bambu Studio, OrcaSlicer or PrusaSlicer
+  triangleColors?: (string | undefined)[]; // when triangles have properties of their own
+}
+
+// Property resources (base materials and color groups) by resource id
+interface PropertyGroup {
+  colors: (string | undefined)[];
+  names: (string | undefined)[];
+}
+
+interface RawMesh extends MeshObject {
+  triangleProperties: ({ pid: number; pindex: number } | undefined)[];
+}
+
+interface RawObject {
+  id: number;
+  name?: string;
+  type: string;
+  pid?: number;
+  pindex?: number;
+  mesh?: RawMesh;
+  components: { objectId: number; path?: string; transform: Transform3MF }[];
+}
+
+interface ModelPart {
+  unitScale: number;
+  objects: Map<number, RawObject>;
+  properties: Map<number, PropertyGroup>;
+  items: { objectId: number; path?: string; transform: Transform3MF }[];
+}
+
+function parseTransform(value: string | undefined): Transform3MF {
+  if (!value) return IDENTITY_TRANSFORM;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  if (numbers.length !== 12 || numbers.some((n) => !Number.isFinite(n))) {
+    throw new Error(`Invalid 3MF file: bad transform "${value}"`);
+  }
+  return numbers;
+}
+
+// New mesh with every vertex transformed
+export function applyTransform(mesh: MeshObject, transform: Transform3MF): MeshObject {
+  const m = transform;
+  return {
+    vertices: mesh.vertices.map(({ x, y, z }) => ({
+      x: x * m[0] + y * m[3] + z * m[6] + m[9],
+      y: x * m[1] + y * m[4] + z * m[7] + m[10],
+      z: x * m[2] + y * m[5] + z * m[8] + m[11],
+    })),
+    triangles: mesh.triangles,
+  };
+}
+
+// 3MF colors are #RRGGBB or #RRGGBBAA; opaque colors are returned as #RRGGBB
+function normalizeColor(value: string | undefined): string | undefined {
+  if (!value || !/^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) return undefined;
+  return /ff$/i.test(value) && value.length === 9 ? value.slice(0, 7) : value;
+}
+
+// Attribute by local name, in the element's own namespace or none
+function attribute(tag: sax.QualifiedTag, local: string, uri: string = ''): string | undefined {
+  for (const key in tag.attributes) {
+    const attr = tag.attributes[key];
+    if (attr.local === local && (attr.uri === uri || (uri === '' && attr.prefix === ''))) return attr.value;
+  }
+  return undefined;
+}
+
+function parseXml(xml: string, onOpen: (tag: sax.QualifiedTag, parents: sax.QualifiedTag[]) => void): void {
+  const parser = sax.parser(true, { xmlns: true });
+  const stack: sax.QualifiedTag[] = [];
+  parser.onopentag = (tag) => {
+    onOpen(tag as sax.QualifiedTag, stack);
+    stack.push(tag as sax.QualifiedTag);
+  };
+  parser.onclosetag = () => {
+    stack.pop();
+  };
+  parser.onerror = (error) => {
+    throw new Error(`Invalid 3MF file: ${error.message.split('\n')[0]}`);
+  };
+  parser.write(xml).close();
+}
+
+function parseModelPart(xml: string): ModelPart {
+  const part: ModelPart = { unitScale: 1, objects: new Map(), properties: new Map(), items: [] };
+  let object: RawObject | undefined;
+  let group: PropertyGroup | undefined;
+
+  const intAttribute = (tag: sax.QualifiedTag, name: string) => {
+    const value = attribute(tag, name);
+    return value === undefined ? undefined : parseInt(value, 10);
+  };
+
+  parseXml(xml, (tag, parents) => {
+    const parent = parents[parents.length - 1];
+
+    if (tag.uri === MATERIAL_NAMESPACE) {
+      if (tag.local === 'colorgroup') {
+        group = { colors: [], names: [] };
+        part.properties.set(intAttribute(tag, 'id')!, group);
+      } else if (tag.local === 'color' && group) {
+        group.colors.push(normalizeColor(attribute(tag, 'color')));
+        group.names.push(undefined);
+      }
+      return;
+    }
+    if (tag.uri !== CORE_NAMESPACE) return;
+
+    switch (tag.local) {
+      case 'model': {
+        const unit = attribute(tag, 'unit') ?? 'millimeter';
+        if (!(unit in UNIT_SCALE)) throw new Error(`Invalid 3MF file: unknown unit "${unit}"`);
+        part.unitScale = UNIT_SCALE[unit];
+        break;
+      }
+      case 'basematerials':
+        group = { colors: [], names: [] };
+        part.properties.set(intAttribute(tag, 'id')!, group);
+        break;
+      case 'base':
+        if (group) {
+          group.colors.push(normalizeColor(attribute(tag, 'displaycolor')));
+          group.names.push(attribute(tag, 'name'));
+        }
+        break;
+      case 'object':
+        object = {
+          id: intAttribute(tag, 'id')!,
+          name: attribute(tag, 'name'),
+          type: attribute(tag, 'type') ?? 'model',
+          pid: intAttribute(tag, 'pid'),
+          pindex: intAttribute(tag, 'pindex'),
+          components: [],
+        };
+        part.objects.set(object.id, object);
+        break;
+      case 'mesh':
+        if (object) object.mesh = { vertices: [], triangles: [], triangleProperties: [] };
+        break;
+      case 'vertex':
+        object?.mesh?.vertices.push({
+          x: parseFloat(attribute(tag, 'x')!) * part.unitScale,
+          y: parseFloat(attribute(tag, 'y')!) * part.unitScale,
+          z: parseFloat(attribute(tag, 'z')!) * part.unitScale,
+        });
+        break;
+      case 'triangle': {
+        const mesh = object?.mesh;
+        if (!mesh) break;
+        mesh.triangles.push({
+          v1: intAttribute(tag, 'v1')!,
+          v2: intAttribute(tag, 'v2')!,
+          v3: intAttribute(tag, 'v3')!,
+        });
+        const p1 = intAttribute(tag, 'p1');
+        const pid = intAttribute(tag, 'pid') ?? object!.pid;
+        mesh.triangleProperties.push(p1 !== undefined && pid !== undefined ? { pid, pindex: p1 } : undefined);
+        break;
+      }
+      case 'component':
+        object?.components.push({
+          objectId: intAttribute(tag, 'objectid')!,
+          path: attribute(tag, 'path', PRODUCTION_NAMESPACE),
+          transform: parseTransform(attribute(tag, 'transform')),
+        });
+        break;
+      case 'item':
+        if (parent?.local === 'build') {
+          part.items.push({
+            objectId: intAttribute(tag, 'objectid')!,
+            path: attribute(tag, 'path', PRODUCTION_NAMESPACE),
+            transform: parseTransform(attribute(tag, 'transform')),
+          });
+        }
+        break;
+    }
+  });
+
+  // Translations are in model units too
+  if (part.unitScale !== 1) {
+    const scaleTranslation = (transform: Transform3MF) =>
+      transform.map((value, i) => (i >= 9 ? value * part.unitScale : value));
+    for (const item of part.items) item.transform = scaleTranslation(item.transform);
+    for (const object of part.objects.values()) {
+      for (const component of object.components) component.transform = scaleTranslation(component.transform);
+    }
+  }
+
+  return part;
+}
+
+// Slicer settings per root object id: Bambu Studio / OrcaSlicer write model_settings.config,
+// PrusaSlicer Slic3r_PE_model.config, both with <metadata key="..."> on the object
+function parseObjectSettings(xml: string): Map<number, { name?: string; extruder?: number }> {
+  const settings = new Map<number, { name?: string; extruder?: number }>();
+  parseXml(xml, (tag, parents) => {
+    const parent = parents[parents.length - 1];
+    if (tag.local !== 'metadata' || parent?.local !== 'object') return;
+
+    const id = parseInt(attribute(parent, 'id') ?? '', 10);
+    if (!Number.isInteger(id)) return;
+    if (!settings.has(id)) settings.set(id, {});
+
+    const value = attribute(tag, 'value') ?? '';
+    if (attribute(tag, 'key') === 'name') settings.get(id)!.name = value;
+    if (attribute(tag, 'key') === 'extruder' && parseInt(value, 10) > 0) settings.get(id)!.extruder = parseInt(value, 10);
+  });
+  return settings;
+}
+
+// Filament colors of the slicer project, in extruder order (file names in lower case)
+function parseFilamentColors(files: Map<string, () => Promise<string>>): Promise<string[]> {
+  const bambu = files.get('/metadata/project_settings.config');
+  if (bambu) {
+    return bambu().then((json) => {
+      try {
+        const colors = JSON.parse(json).filament_colour;
+        return Array.isArray(colors) ? colors : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  const prusa = files.get('/metadata/slic3r_pe.config');
+  if (prusa) {
+    return prusa().then((ini) => {
+      const match = /^; (?:filament|extruder)_colour = (.*)$/m.exec(ini);
+      return match ? match[1].split(';') : [];
+    });
+  }
+
+  return Promise.resolve([]);
+}
+
+// Read every build item of a 3MF file, resolving components (including production
+// extension components in other model parts) and their transforms. Works in memory.
+export async function read3MF(source: string | Buffer): Promise<ThreeMFObject[]> {
+  const buffer = typeof source === 'string' ? fs.readFileSync(source) : source;
+  const directory = await unzipper.Open.buffer(buffer);
+
+  // Part names are absolute, case-insensitive paths inside the package
+  const normalize = (name: string) => ('/' + name.replace(/^\/+/, '')).toLowerCase();
+  const files = new Map<string, () => Promise<string>>();
+  for (const file of directory.files) {
+    if (file.type === 'File') {
+      files.set(normalize(file.path), async () => (await file.buffer()).toString('utf-8'));
+    }
+  }
+  const readPart = async (name: string) => {
+    const read = files.get(normalize(name));
+    if (!read) throw new Error(`Invalid 3MF file: missing ${name}`);
+    return read();
+  };
+
+  // The root model is the target of the 3dmodel relationship
+  let rootPath = DEFAULT_ROOT_MODEL;
+  if (files.has('/_rels/.rels')) {
+    parseXml(await readPart('/_rels/.rels'), (tag) => {
+      if (tag.local === 'Relationship' && attribute(tag, 'Type') === MODEL_RELATIONSHIP) {
+        rootPath = attribute(tag, 'Target') ?? rootPath;
+      }
+    });
+  }
+
+  const parts = new Map<string, ModelPart>();
+  const loadPart = async (name: string): Promise<ModelPart> => {
+    const key = normalize(name);
+    if (!parts.has(key)) parts.set(key, parseModelPart(await readPart(name)));
+    return parts.get(key)!;
+  };
+
+  const root = await loadPart(rootPath);
+
+  // Components may live in other parts, so load every referenced part up front
+  const pending = [root];
+  while (pending.length > 0) {
+    const part = pending.pop()!;
+    for (const object of part.objects.values()) {
+      for (const component of object.components) {
+        if (component.path && !parts.has(normalize(component.path))) pending.push(await loadPart(component.path));
+      }
+    }
+  }
+
+  const colorOf = (part: ModelPart, pid: number | undefined, pindex: number | undefined) => {
+    const group = pid === undefined ? undefined : part.properties.get(pid);
+    return {
+      color: group?.colors[pindex ?? 0],
+      material: group?.names[pindex ?? 0],
+    };
+  };
+
+  // Flatten an object and its components into one mesh in the object's coordinates
+  const flatten = (
+    partPath: string,
+    objectId: number,
+    depth: number
+  ): { mesh: MeshObject; triangleColors: (string | undefined)[]; object: RawObject; part: ModelPart } => {
+    if (depth > 32) throw new Error('Invalid 3MF file: components are nested too deeply');
+    const part = parts.get(normalize(partPath))!;
+    const object = part.objects.get(objectId);
+    if (!object) throw new Error(`Invalid 3MF file: object ${objectId} not found in ${partPath}`);
+
+    const meshes: MeshObject[] = [];
+    const triangleColors: (string | undefined)[] = [];
+    if (object.mesh) {
+      meshes.push(object.mesh);
+      for (const property of object.mesh.triangleProperties) {
+        triangleColors.push(
+          property ? colorOf(part, property.pid, property.pindex).color : colorOf(part, object.pid, object.pindex).color
+        );
+      }
+    }
+    for (const component of object.components) {
+      const child = flatten(component.path ?? partPath, component.objectId, depth + 1);
+      meshes.push(applyTransform(child.mesh, component.transform));
+      const childColor = colorOf(child.part, child.object.pid, child.object.pindex).color;
+      triangleColors.push(...child.triangleColors.map((color) => color ?? childColor));
+    }
+
+    return { mesh: mergeMeshes(meshes), triangleColors, object, part };
+  };
+
+  const settingsFile = files.get('/metadata/model_settings.config') ?? files.get('/metadata/slic3r_pe_model.config');
+  const objectSettings = settingsFile ? parseObjectSettings(await settingsFile()) : new Map();
+  const filamentColors = await parseFilamentColors(files);
+
+  return root.items.map((item): ThreeMFObject => {
+    const itemPath = item.path ?? rootPath;
+    const { mesh, triangleColors, object, part } = flatten(itemPath, item.objectId, 0);
+    const own = colorOf(part, object.pid, object.pindex);
+    const settings = objectSettings.get(item.objectId);
+    const extruder = settings?.extruder;
+    const distinctColors = new Set(triangleColors);
+    const color =
+      own.color ??
+      (distinctColors.size === 1 ? triangleColors[0] : undefined) ??
+      normalizeColor(extruder ? filamentColors[extruder - 1] : undefined);
+
+    return {
+      id: item.objectId,
+      name: object.name ?? settings?.name,
+      type: object.type,
+      mesh,
+      transform: item.transform,
+      color,
+      material: own.material,
+      extruder,
+      triangleColors: distinctColors.size > 1 ? triangleColors : undefined,
+    };
+  });
+}
+
+// Every build item of a 3MF file as one mesh in build coordinates
+export async function parse3MF(filepath: string): Promise<MeshObject> {
+  const objects = await read3MF(filepath);
+  if (objects.length === 0) {
+    throw new Error(`Invalid 3MF file: ${path.basename(filepath)} has no build items`);
+  }
+  return mergeMeshes(objects.map((object) => applyTransform(object.mesh, object.transform)));
+}
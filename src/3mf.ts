@@ -1,10 +1,25 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import archiver from 'archiver';
-import unzipper from 'unzipper';
-import { v4 as uuidv4 } from 'uuid';
-import { hexToRgb } from './colors';
-import { Jimp } from 'jimp';
+import { FilamentColor } from './colors';
+import { filamentLabel } from './filaments';
+import { ColorChangePlan } from './color-change';
+import { MetadataConfig, OutputProfile } from './config';
+import { PrinterProfile, resolvePrinter } from './printers';
+import { renderIsometricView, renderPickMap, renderTopView } from './thumbnails';
+import {
+  ArchiveEntry,
+  PackageDesign,
+  PlateLayout,
+  contentUuid,
+  encodePng,
+  escapeXml,
+  generateContentTypes,
+  meshXml,
+  objectName,
+  packageDate,
+  platePosition,
+  writeZipArchive,
+} from './3mf-package';
+import { createPrusaEntries } from './3mf-prusa';
+import { createCoreEntries } from './3mf-core';
 
 export interface MeshObject {
   vertices: { x: number; y: number; z: number }[];
@@ -15,174 +30,245 @@ export interface ColoredObject {
   mesh: MeshObject;
   color: string; // hex color
   filamentName: string;
+  filament?: FilamentColor; // catalog entry the color was resolved to, if any
 }
 
-export async function parse3MF(filepath: string): Promise<MeshObject> {
-  const tempDir = path.join(path.dirname(filepath), `temp_${Date.now()}`);
-  fs.mkdirSync(tempDir, { recursive: true });
-
-  try {
-    // Extract 3MF (which is a ZIP file)
-    await fs
-      .createReadStream(filepath)
-      .pipe(unzipper.Extract({ path: tempDir }))
-      .promise();
-
-    // Read the main model file
-    const modelPath = path.join(tempDir, '3D', '3dmodel.model');
-    if (!fs.existsSync(modelPath)) {
-      throw new Error('Invalid 3MF file: missing 3D/3dmodel.model');
+// Objects printed with the same filament share an extruder
+export function filamentKey(object: ColoredObject): string {
+  return object.filament ? filamentLabel(object.filament) : object.filamentName;
+}
+
+// Extruder number (1-based) for every object. Filaments with an explicit slot use it, the
+// others take the lowest free slots in order of first use.
+function assignExtruders(objects: ColoredObject[], slots: Record<string, number> = {}): number[] {
+  const extruders = new Map<string, number>(Object.entries(slots));
+  const used = new Set(extruders.values());
+  let next = 1;
+  return objects.map((object) => {
+    const key = filamentKey(object);
+    if (!extruders.has(key)) {
+      while (used.has(next)) next++;
+      extruders.set(key, next);
+      used.add(next);
     }
+    return extruders.get(key)!;
+  });
+}
 
-    const modelXml = fs.readFileSync(modelPath, 'utf-8');
-    const mesh = parseModelXml(modelXml);
+// Slicer filament ids of the generic presets, by filament type
+const GENERIC_FILAMENT_IDS: Record<string, string> = {
+  PLA: 'GFL99',
+  PETG: 'GFG99',
+  ABS: 'GFB99',
+  ASA: 'GFB98',
+  TPU: 'GFU99',
+  PA: 'GFN99',
+  PC: 'GFC99',
+};
+
+export function countFilaments(objects: ColoredObject[]): number {
+  return new Set(objects.map(filamentKey)).size;
+}
 
-    return mesh;
-  } finally {
-    // Clean up temp directory
-    // fs.rmSync(tempDir, { recursive: true, force: true });
-  }
+export interface Combined3MFOptions {
+  // Slicer the package is written for (default "bambu")
+  profile?: OutputProfile;
+  // Filament changes by layer for single-extruder printing
+  colorChangePlan?: ColorChangePlan;
+  // Emit one object whose parts are the colors instead of one object per color
+  singleObject?: boolean;
+  // Name of the single object (default "Design")
+  name?: string;
+  // Explicit extruder / AMS slot (1-based) by filament key
+  slots?: Record<string, number>;
+  // Printer whose plate the design is centered on (default X1 Carbon)
+  printer?: PrinterProfile;
+  // Objects to print on separate plates (default: all on one plate)
+  plates?: DesignPlate[];
+  // Project information for the model metadata
+  metadata?: MetadataConfig;
+  // Creation date written into the package (default: now)
+  date?: Date;
+  // Byte-identical output: UUIDs from content hashes, entries in name order, fixed ZIP dates
+  deterministic?: boolean;
 }
 
-function parseModelXml(xml: string): MeshObject {
-  const vertices: { x: number; y: number; z: number }[] = [];
-  const triangles: { v1: number; v2: number; v3: number }[] = [];
-
-  // Simple XML parsing for vertices (handles both /> and  />)
-  const vertexRegex = /<vertex x="([^"]+)" y="([^"]+)" z="([^"]+)"\s*\/>/g;
-  let match;
-  while ((match = vertexRegex.exec(xml)) !== null) {
-    vertices.push({
-      x: parseFloat(match[1]),
-      y: parseFloat(match[2]),
-      z: parseFloat(match[3]),
-    });
-  }
+// Objects printed together on one plate, centered on it as one block: the rectangle from
+// (x, y) of width x height mm in mesh coordinates
+export interface DesignPlate {
+  name?: string;
+  objects: number[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
-  // Simple XML parsing for triangles (handles both /> and  />)
-  const triangleRegex = /<triangle v1="([^"]+)" v2="([^"]+)" v3="([^"]+)"\s*\/>/g;
-  while ((match = triangleRegex.exec(xml)) !== null) {
-    triangles.push({
-      v1: parseInt(match[1]),
-      v2: parseInt(match[2]),
-      v3: parseInt(match[3]),
-    });
-  }
+interface ObjectReference {
+  id: number;
+  uuid: string;
+  path: string;
+}
 
-  return { vertices, triangles };
+// Top-level objects on every plate and the colored objects that are their parts
+function groupParts(plates: DesignPlate[], singleObject: boolean): { groups: number[][]; layouts: PlateLayout[] } {
+  const groups: number[][] = [];
+  const layouts = plates.map(({ name, objects, x, y, width, height }) => {
+    const parts = singleObject ? [objects] : objects.map((i) => [i]);
+    const first = groups.length;
+    groups.push(...parts);
+    return { name, groups: parts.map((_, k) => first + k), x, y, width, height };
+  });
+  return { groups, layouts };
 }
 
-// Create thumbnail images for Bambu Studio compatibility
-async function createThumbnails(tempDir: string): Promise<void> {
-  // Create a simple grey placeholder thumbnail (matching Bambu Studio style)
-  // Middle size: 256x256
-  const middleThumb = new Jimp({ width: 256, height: 256, color: 0x808080FF });
-  await middleThumb.write(path.resolve(path.join(tempDir, 'Metadata', 'plate_1.png')) as `${string}.${string}`);
-  
-  // Small size: 96x96
-  const smallThumb = new Jimp({ width: 96, height: 96, color: 0x808080FF });
-  await smallThumb.write(path.resolve(path.join(tempDir, 'Metadata', 'plate_1_small.png')) as `${string}.${string}`);
+// Use even IDs for wrapper objects: 2, 4, 6, 8
+function wrapperId(groupIndex: number): number {
+  return (groupIndex + 1) * 2;
 }
 
-// Create additional thumbnails required by Bambu Studio
-async function createAdditionalThumbnails(tempDir: string): Promise<void> {
-  // Create top_1.png (256x256)
-  const topThumb = new Jimp({ width: 256, height: 256, color: 0x808080FF });
-  await topThumb.write(path.resolve(path.join(tempDir, 'Metadata', 'top_1.png')) as `${string}.${string}`);
-  
-  // Create pick_1.png (256x256)
-  const pickThumb = new Jimp({ width: 256, height: 256, color: 0x808080FF });
-  await pickThumb.write(path.resolve(path.join(tempDir, 'Metadata', 'pick_1.png')) as `${string}.${string}`);
+// Colored objects on a plate
+function plateObjects(design: PackageDesign, plate: PlateLayout): number[] {
+  return plate.groups.flatMap((g) => design.groups[g]);
+}
+
+// Plate thumbnails shown in the project browser and on the printer: a shaded isometric view
+async function createThumbnails(design: PackageDesign, plateIndex: number): Promise<ArchiveEntry[]> {
+  const objects = plateObjects(design, design.plates[plateIndex]).map((i) => design.objects[i]);
+  const n = plateIndex + 1;
+  return [
+    // Middle size: 256x256
+    { name: `Metadata/plate_${n}.png`, content: await encodePng(renderIsometricView(objects, 256)) },
+    // Small size: 96x96
+    { name: `Metadata/plate_${n}_small.png`, content: await encodePng(renderIsometricView(objects, 96)) },
+  ];
+}
+
+async function createAdditionalThumbnails(design: PackageDesign, plateIndex: number): Promise<ArchiveEntry[]> {
+  const plate = design.plates[plateIndex];
+  const objects: ColoredObject[] = [];
+  const ids: number[] = [];
+  for (const g of plate.groups) {
+    for (const i of design.groups[g]) {
+      objects.push(design.objects[i]);
+      ids.push(identifyId(g));
+    }
+  }
+  const n = plateIndex + 1;
+  return [
+    // top_N.png (256x256), the plate seen from above
+    { name: `Metadata/top_${n}.png`, content: await encodePng(renderTopView(objects, 256)) },
+    // pick_N.png (256x256), the same view with every object filled with its identify_id
+    { name: `Metadata/pick_${n}.png`, content: await encodePng(renderPickMap(objects, ids, 256)) },
+  ];
 }
 
 export async function createCombined3MF(
   objects: ColoredObject[],
   outputPath: string,
   imageWidth: number,
-  imageHeight: number
+  imageHeight: number,
+  options: Combined3MFOptions = {}
 ): Promise<void> {
-  const tempDir = path.join(path.dirname(outputPath), `temp_${Date.now()}`);
-  fs.mkdirSync(tempDir, { recursive: true });
-
-  try {
-    // Create directory structure
-    fs.mkdirSync(path.join(tempDir, '3D'), { recursive: true });
-    fs.mkdirSync(path.join(tempDir, '3D', 'Objects'), { recursive: true });
-    fs.mkdirSync(path.join(tempDir, '3D', '_rels'), { recursive: true });
-    fs.mkdirSync(path.join(tempDir, '_rels'), { recursive: true });
-    fs.mkdirSync(path.join(tempDir, 'Metadata'), { recursive: true });
-
-    // Create thumbnail images for Bambu Studio compatibility
-    await createThumbnails(tempDir);
-
-    // Create [Content_Types].xml
-    const contentTypes = generateContentTypes();
-    fs.writeFileSync(path.join(tempDir, '[Content_Types].xml'), contentTypes, 'utf-8');
-
-    // Create _rels/.rels
-    const rels = generateRootRels();
-    fs.writeFileSync(path.join(tempDir, '_rels', '.rels'), rels, 'utf-8');
-
-    // Create 3D/_rels/3dmodel.model.rels
-    const modelRels = generate3DModelRels(objects.length);
-    fs.writeFileSync(path.join(tempDir, '3D', '_rels', '3dmodel.model.rels'), modelRels, 'utf-8');
-
-    // Create object model files - use sequential IDs (1, 2, 3, 4)
-    const objectReferences: { id: number; uuid: string; path: string }[] = [];
-    for (let i = 0; i < objects.length; i++) {
-      const obj = objects[i];
-      const objectId = i + 1; // 1, 2, 3, 4 (sequential)
-      const uuid = uuidv4();
-      const objectPath = `/3D/Objects/object_${objectId}.model`;
-      
-      const objectModel = generateObjectModel(obj.mesh, objectId, uuid);
-      fs.writeFileSync(
-        path.join(tempDir, '3D', 'Objects', `object_${objectId}.model`),
-        objectModel,
-        'utf-8'
-      );
-
-      objectReferences.push({ id: objectId, uuid, path: objectPath });
-    }
+  const { colorChangePlan } = options;
+  // On a single extruder every object prints with extruder 1 and the filament changes by layer
+  const extruders = colorChangePlan ? objects.map(() => 1) : assignExtruders(objects, options.slots);
+  const plates = options.plates ?? [
+    { objects: objects.map((_, i) => i), x: 0, y: 0, width: imageWidth, height: imageHeight },
+  ];
+  const { groups, layouts } = groupParts(plates, options.singleObject ?? false);
+  const design: PackageDesign = {
+    objects,
+    groups,
+    extruders,
+    slots: slotFilaments(objects, extruders, colorChangePlan),
+    plates: layouts,
+    name: options.name ?? 'Design',
+    printer: options.printer ?? resolvePrinter(undefined),
+    metadata: options.metadata ?? {},
+    date: options.date ?? new Date(),
+    deterministic: options.deterministic ?? false,
+    colorChangePlan,
+  };
+
+  const profile = options.profile ?? 'bambu';
+  const entries =
+    profile === 'prusa'
+      ? await createPrusaEntries(design)
+      : profile === 'core'
+        ? await createCoreEntries(design)
+        : await createBambuEntries(design, profile);
+
+  // Create ZIP archive
+  await writeZipArchive(entries, outputPath, design.deterministic ? design.date : undefined);
+}
+
+// Bambu Studio package; OrcaSlicer reads the same layout
+async function createBambuEntries(design: PackageDesign, profile: 'bambu' | 'orca'): Promise<ArchiveEntry[]> {
+  const { objects, groups, extruders, colorChangePlan } = design;
+  const entries: ArchiveEntry[] = [];
+  // Create thumbnail images for Bambu Studio compatibility
+  for (let p = 0; p < design.plates.length; p++) {
+    entries.push(...(await createThumbnails(design, p)));
+  }
 
-    // Create main 3dmodel.model
-    const mainModel = generateMainModel(objectReferences, imageWidth, imageHeight);
-    fs.writeFileSync(path.join(tempDir, '3D', '3dmodel.model'), mainModel, 'utf-8');
+  // Create [Content_Types].xml
+  entries.push({ name: '[Content_Types].xml', content: generateContentTypes() });
 
-    // Create model_settings.config with color information
-    const modelSettings = generateModelSettings(objects, objectReferences);
-    fs.writeFileSync(path.join(tempDir, 'Metadata', 'model_settings.config'), modelSettings, 'utf-8');
+  // Create _rels/.rels
+  entries.push({ name: '_rels/.rels', content: generateRootRels() });
 
-    // Create project_settings.config with filament colors (no custom presets)
-    const projectSettings = generateProjectSettings();
-    fs.writeFileSync(path.join(tempDir, 'Metadata', 'project_settings.config'), projectSettings, 'utf-8');
+  // Create 3D/_rels/3dmodel.model.rels
+  entries.push({ name: '3D/_rels/3dmodel.model.rels', content: generate3DModelRels(objects.length) });
 
-    // Create cut_information.xml
-    const cutInfo = generateCutInformation(objectReferences);
-    fs.writeFileSync(path.join(tempDir, 'Metadata', 'cut_information.xml'), cutInfo, 'utf-8');
+  // Create object model files - use sequential IDs (1, 2, 3, 4)
+  const objectReferences: ObjectReference[] = [];
+  for (let i = 0; i < objects.length; i++) {
+    const obj = objects[i];
+    const objectId = i + 1; // 1, 2, 3, 4 (sequential)
+    const mesh = meshXml(obj.mesh, '   ');
+    const uuid = contentUuid(design, `${objectId}\n${mesh}`);
+    const objectPath = `/3D/Objects/object_${objectId}.model`;
+
+    entries.push({ name: objectPath.slice(1), content: generateObjectModel(mesh, objectId, uuid) });
+    objectReferences.push({ id: objectId, uuid, path: objectPath });
+  }
 
-    // Create slice_info.config
-    const sliceInfo = generateSliceInfo();
-    fs.writeFileSync(path.join(tempDir, 'Metadata', 'slice_info.config'), sliceInfo, 'utf-8');
+  // Create main 3dmodel.model
+  entries.push({ name: '3D/3dmodel.model', content: generateMainModel(objectReferences, design, profile) });
 
-    // Create additional thumbnail files
-    await createAdditionalThumbnails(tempDir);
+  // Create model_settings.config with color information
+  entries.push({
+    name: 'Metadata/model_settings.config',
+    content: generateModelSettings(design, objectReferences),
+  });
 
-    // Create ZIP archive
-    await createZipArchive(tempDir, outputPath);
-  } finally {
-    // Clean up temp directory
-    // fs.rmSync(tempDir, { recursive: true, force: true });
+  // Filament changes for single-extruder printing
+  if (colorChangePlan) {
+    entries.push({
+      name: 'Metadata/custom_gcode_per_layer.xml',
+      content: generateCustomGcodePerLayer(colorChangePlan, design.plates.length),
+    });
   }
-}
 
-function generateContentTypes(): string {
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
- <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
- <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
- <Default Extension="png" ContentType="image/png"/>
-</Types>`;
+  // Create project_settings.config with filament colors (no custom presets)
+  entries.push({
+    name: 'Metadata/project_settings.config',
+    content: generateProjectSettings(design.slots, profile),
+  });
+
+  // Create cut_information.xml
+  entries.push({ name: 'Metadata/cut_information.xml', content: generateCutInformation(groups.length) });
+
+  // Create slice_info.config
+  entries.push({ name: 'Metadata/slice_info.config', content: generateSliceInfo() });
+
+  // Create additional thumbnail files
+  for (let p = 0; p < design.plates.length; p++) {
+    entries.push(...(await createAdditionalThumbnails(design, p)));
+  }
+
+  return entries;
 }
 
 function generateRootRels(): string {
@@ -209,94 +295,83 @@ function generate3DModelRels(objectCount: number): string {
   return rels;
 }
 
-function generateObjectModel(mesh: MeshObject, objectId: number, uuid: string): string {
-  let xml = `<?xml version="1.0" encoding="UTF-8"?>
+function generateObjectModel(mesh: string, objectId: number, uuid: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
 <model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:BambuStudio="http://schemas.bambulab.com/package/2021" xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06" requiredextensions="p">
  <metadata name="BambuStudio:3mfVersion">1</metadata>
  <resources>
   <object id="${objectId}" p:UUID="${uuid}" type="model">
-   <mesh>
-    <vertices>
-`;
-
-  for (const v of mesh.vertices) {
-    xml += `     <vertex x="${v.x}" y="${v.y}" z="${v.z}"/>\n`;
-  }
-
-  xml += `    </vertices>
-    <triangles>
-`;
-
-  for (const t of mesh.triangles) {
-    xml += `     <triangle v1="${t.v1}" v2="${t.v2}" v3="${t.v3}"/>\n`;
-  }
-
-  xml += `    </triangles>
-   </mesh>
-  </object>
+${mesh}  </object>
  </resources>
  <build/>
 </model>`;
-
-  return xml;
 }
 
-function generateMainModel(objectReferences: { id: number; uuid: string; path: string }[], imageWidth: number, imageHeight: number): string {
-  const buildUuid = "2c7c17d8-22b5-4d84-8835-1976022ea369";
-  const now = new Date();
-  const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD format
+// Versions the package claims to be written by
+const APPLICATIONS: Record<'bambu' | 'orca', string> = {
+  bambu: 'BambuStudio-01.09.01.67',
+  orca: 'OrcaSlicer-2.1.1',
+};
+
+function generateMainModel(
+  objectReferences: ObjectReference[],
+  design: PackageDesign,
+  profile: 'bambu' | 'orca'
+): string {
+  const { groups, metadata } = design;
+  const dateStr = packageDate(design);
   
   let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:BambuStudio="http://schemas.bambulab.com/package/2021" xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06" requiredextensions="p">
- <metadata name="Application">BambuStudio-01.09.01.67</metadata>
+ <metadata name="Application">${APPLICATIONS[profile]}</metadata>
  <metadata name="BambuStudio:3mfVersion">1</metadata>
- <metadata name="Copyright"></metadata>
+ <metadata name="Copyright">${escapeXml(metadata.copyright ?? '')}</metadata>
  <metadata name="CreationDate">${dateStr}</metadata>
- <metadata name="Description"></metadata>
- <metadata name="Designer"></metadata>
+ <metadata name="Description">${escapeXml(metadata.description ?? '')}</metadata>
+ <metadata name="Designer">${escapeXml(metadata.designer ?? '')}</metadata>
  <metadata name="DesignerCover"></metadata>
- <metadata name="DesignerUserId">4049112567</metadata>
- <metadata name="License"></metadata>
+ <metadata name="License">${escapeXml(metadata.license ?? '')}</metadata>
  <metadata name="ModificationDate">${dateStr}</metadata>
  <metadata name="Origin"></metadata>
  <metadata name="Thumbnail_Middle">/Metadata/plate_1.png</metadata>
  <metadata name="Thumbnail_Small">/Metadata/plate_1_small.png</metadata>
- <metadata name="Title"></metadata>
+ <metadata name="Title">${escapeXml(metadata.title ?? '')}</metadata>
  <resources>
 `;
 
-  // Use even IDs for wrapper objects: 2, 4, 6, 8
-  for (let i = 0; i < objectReferences.length; i++) {
-    const obj = objectReferences[i];
-    const wrapperId = (i + 1) * 2; // 2, 4, 6, 8
-    const wrapperUuid = `0000000${i + 1}-61cb-4c03-9d28-80fed5dfa1dc`;
-    const componentUuid = `000${i + 1}0000-b206-40ff-9872-83e8017abed1`;
-
-    xml += `  <object id="${wrapperId}" p:UUID="${wrapperUuid}" type="model">
+  // Every wrapper object has one component per part. Like the objects, wrappers, components
+  // and build items get UUIDs hashed from what they hold in deterministic mode.
+  const wrapperUuids = groups.map((parts, g) =>
+    contentUuid(design, `wrapper ${wrapperId(g)}\n${parts.map((i) => objectReferences[i].uuid).join('\n')}`)
+  );
+  for (let g = 0; g < groups.length; g++) {
+    xml += `  <object id="${wrapperId(g)}" p:UUID="${wrapperUuids[g]}" type="model">
    <components>
-    <component p:path="${obj.path}" objectid="${obj.id}" p:UUID="${componentUuid}" transform="1 0 0 0 1 0 0 0 1 0 0 0"/>
-   </components>
+`;
+    for (const i of groups[g]) {
+      const obj = objectReferences[i];
+      const componentUuid = contentUuid(design, `component ${wrapperUuids[g]}\n${obj.uuid}`);
+      xml += `    <component p:path="${obj.path}" objectid="${obj.id}" p:UUID="${componentUuid}" transform="1 0 0 0 1 0 0 0 1 0 0 0"/>
+`;
+    }
+    xml += `   </components>
   </object>
 `;
   }
 
+  const buildUuid = contentUuid(design, `build\n${wrapperUuids.join('\n')}`);
   xml += ` </resources>
  <build p:UUID="${buildUuid}">
 `;
 
-  // Center the object on the build plate (250x250mm)
-  // Calculate position to center the image
-  const buildPlateWidth = 250;
-  const buildPlateHeight = 250;
-  const baseX = (buildPlateWidth - imageWidth) / 2;
-  const baseY = (buildPlateHeight - imageHeight) / 2;
+  // Center the objects on their build plates
   const baseZ = 0;
   
-  for (let i = 0; i < objectReferences.length; i++) {
-    const wrapperId = (i + 1) * 2; // 2, 4, 6, 8
-    const itemUuid = `0000000${wrapperId}-b1ec-4553-aec9-835e5b724bb4`;
+  for (let g = 0; g < groups.length; g++) {
+    const { x: baseX, y: baseY } = platePosition(design, g);
+    const itemUuid = contentUuid(design, `item ${wrapperUuids[g]}\n${baseX} ${baseY} ${baseZ}`);
 
-    xml += `  <item objectid="${wrapperId}" p:UUID="${itemUuid}" transform="1 0 0 0 1 0 0 0 1 ${baseX} ${baseY} ${baseZ}" printable="1"/>\n`;
+    xml += `  <item objectid="${wrapperId(g)}" p:UUID="${itemUuid}" transform="1 0 0 0 1 0 0 0 1 ${baseX} ${baseY} ${baseZ}" printable="1"/>\n`;
   }
 
   xml += ` </build>
@@ -305,67 +380,86 @@ function generateMainModel(objectReferences: { id: number; uuid: string; path: s
   return xml;
 }
 
-function generateModelSettings(
-  objects: ColoredObject[],
-  objectReferences: { id: number; uuid: string }[]
-): string {
+// Plate instance id of every object, also the color it has in the pick map: 99, 119, 139, ...
+function identifyId(index: number): number {
+  return 99 + index * 20;
+}
+
+function generateModelSettings(design: PackageDesign, objectReferences: ObjectReference[]): string {
+  const { objects, groups, extruders, name } = design;
   let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <config>
 `;
 
-  for (let i = 0; i < objects.length; i++) {
-    const wrapperId = (i + 1) * 2; // 2, 4, 6, 8
-    const objectId = objectReferences[i].id; // 1, 2, 3, 4
-    const extruder = i + 1; // Extruder IDs start at 1
-    const colorName = objects[i].filamentName || `Color${i + 1}`;
-
-    xml += `  <object id="${wrapperId}">
-    <metadata key="name" value="${colorName}"/>
-    <metadata key="extruder" value="${extruder}"/>
-    <part id="${objectId}" subtype="normal_part">
-      <metadata key="name" value="${colorName}"/>
+  const colorNames = objects.map((object, i) => escapeXml(objectName(object, i)));
+
+  for (let g = 0; g < groups.length; g++) {
+    const parts = groups[g];
+    // A multi-part object is named after the design and every part carries its own extruder
+    const multiPart = parts.length > 1;
+
+    xml += `  <object id="${wrapperId(g)}">
+    <metadata key="name" value="${multiPart ? escapeXml(name) : colorNames[parts[0]]}"/>
+    <metadata key="extruder" value="${extruders[parts[0]]}"/>
+`;
+    for (let volume = 0; volume < parts.length; volume++) {
+      const i = parts[volume];
+      const objectId = objectReferences[i].id; // 1, 2, 3, 4
+
+      xml += `    <part id="${objectId}" subtype="normal_part">
+      <metadata key="name" value="${colorNames[i]}"/>
       <metadata key="matrix" value="1 0 0 0 0 1 0 0 0 0 1 0 0 0 0 1"/>
-      <metadata key="source_file" value=""/>
-      <metadata key="source_object_id" value="${i}"/>
-      <metadata key="source_volume_id" value="0"/>
+`;
+      if (multiPart) {
+        xml += `      <metadata key="extruder" value="${extruders[i]}"/>
+`;
+      }
+      xml += `      <metadata key="source_file" value=""/>
+      <metadata key="source_object_id" value="${multiPart ? g : i}"/>
+      <metadata key="source_volume_id" value="${volume}"/>
       <metadata key="source_offset_x" value="0"/>
       <metadata key="source_offset_y" value="0"/>
       <metadata key="source_offset_z" value="0"/>
       <mesh_stat edges_fixed="0" degenerate_facets="0" facets_removed="0" facets_reversed="0" backwards_edges="0"/>
     </part>
-  </object>
+`;
+    }
+    xml += `  </object>
 `;
   }
 
-  // Add plate section
-  xml += `  <plate>
-    <metadata key="plater_id" value="1"/>
-    <metadata key="plater_name" value=""/>
+  // Add a plate section per plate
+  for (let p = 0; p < design.plates.length; p++) {
+    const n = p + 1;
+    xml += `  <plate>
+    <metadata key="plater_id" value="${n}"/>
+    <metadata key="plater_name" value="${escapeXml(design.plates[p].name ?? '')}"/>
     <metadata key="locked" value="false"/>
-    <metadata key="thumbnail_file" value="Metadata/plate_1.png"/>
-    <metadata key="top_file" value="Metadata/top_1.png"/>
-    <metadata key="pick_file" value="Metadata/pick_1.png"/>
+    <metadata key="thumbnail_file" value="Metadata/plate_${n}.png"/>
+    <metadata key="top_file" value="Metadata/top_${n}.png"/>
+    <metadata key="pick_file" value="Metadata/pick_${n}.png"/>
 `;
 
-  for (let i = 0; i < objects.length; i++) {
-    const wrapperId = (i + 1) * 2; // 2, 4, 6, 8
-    const identifyId = 99 + (i * 20); // 99, 119, 139, 159
-
-    xml += `    <model_instance>
-      <metadata key="object_id" value="${wrapperId}"/>
+    for (const g of design.plates[p].groups) {
+      xml += `    <model_instance>
+      <metadata key="object_id" value="${wrapperId(g)}"/>
       <metadata key="instance_id" value="0"/>
-      <metadata key="identify_id" value="${identifyId}"/>
+      <metadata key="identify_id" value="${identifyId(g)}"/>
     </model_instance>
+`;
+    }
+
+    xml += `  </plate>
 `;
   }
 
-  xml += `  </plate>
-  <assemble>
+  xml += `  <assemble>
 `;
 
-  for (let i = 0; i < objects.length; i++) {
-    const wrapperId = (i + 1) * 2; // 2, 4, 6, 8
-    xml += `   <assemble_item object_id="${wrapperId}" instance_id="0" transform="1 0 0 0 1 0 0 0 1 100 100 0" offset="0 0 0" />
+  for (let g = 0; g < groups.length; g++) {
+    // Assembly view places the objects where they are on the plate
+    const { x, y } = platePosition(design, g);
+    xml += `   <assemble_item object_id="${wrapperId(g)}" instance_id="0" transform="1 0 0 0 1 0 0 0 1 ${x} ${y} 0" offset="0 0 0" />
 `;
   }
 
@@ -374,21 +468,83 @@ function generateModelSettings(
   return xml;
 }
 
-function generateProjectSettings(): string {
-  // Return minimal settings without custom filament settings
-  // This avoids triggering the "customized filament or printer presets" warning
-  const settings = {};
+// Bambu Studio / OrcaSlicer layer changes: type 0 is a color change (M600), type 1 a pause
+// Every plate gets the same changes
+function generateCustomGcodePerLayer(plan: ColorChangePlan, plateCount: number): string {
+  const type = plan.command === 'pause' ? 1 : 0;
+  const gcode = plan.command === 'pause' ? 'M400 U1' : 'M600';
+
+  let xml = `<?xml version="1.0" encoding="utf-8"?>
+<custom_gcodes_per_layer>
+`;
+  for (let p = 0; p < plateCount; p++) {
+    xml += `<plate>
+<plate_info id="${p + 1}"/>
+`;
+    for (const change of plan.changes) {
+      xml += `<layer top_z="${Number(change.z.toFixed(4))}" type="${type}" extruder="1" color="${escapeXml(change.color)}" extra="" gcode="${gcode}"/>
+`;
+    }
+    xml += `<mode value="SingleExtruder"/>
+</plate>
+`;
+  }
+  xml += `</custom_gcodes_per_layer>`;
+  return xml;
+}
+
+// The object loaded in every extruder slot; empty slots are undefined. On a single extruder
+// the slot holds the filament the print starts with.
+function slotFilaments(
+  objects: ColoredObject[],
+  extruders: number[],
+  colorChangePlan?: ColorChangePlan
+): (ColoredObject | undefined)[] {
+  if (colorChangePlan) {
+    return [objects.find((object) => filamentKey(object) === colorChangePlan.startLabel) ?? objects[0]];
+  }
+
+  const slots: (ColoredObject | undefined)[] = Array.from({ length: Math.max(0, ...extruders) }, () => undefined);
+  objects.forEach((object, i) => (slots[extruders[i] - 1] ??= object));
+  return slots;
+}
+
+// Only the filament list is written: colors, types and which system presets to use. Preset
+// settings themselves are left out, so the slicer keeps its own presets unmodified and
+// doesn't warn about customized presets. Empty slots get generic white PLA. OrcaSlicer
+// names its generic presets "Generic PLA @System".
+function generateProjectSettings(slots: (ColoredObject | undefined)[], profile: 'bambu' | 'orca'): string {
+  const genericSuffix = profile === 'orca' ? ' @System' : '';
+  const filaments = slots.map((object) => {
+    const type = object?.filament?.type ?? 'PLA';
+    return {
+      colour: (object?.filament?.hex ?? object?.color ?? '#FFFFFF').toUpperCase(),
+      type,
+      vendor: object?.filament?.brand ?? 'Generic',
+      id: object?.filament?.filamentId ?? GENERIC_FILAMENT_IDS[type.toUpperCase()] ?? GENERIC_FILAMENT_IDS.PLA,
+      settingsId: object?.filament?.settingsId ?? `Generic ${type}${genericSuffix}`,
+    };
+  });
+
+  const settings = {
+    filament_colour: filaments.map((filament) => filament.colour),
+    filament_type: filaments.map((filament) => filament.type),
+    filament_vendor: filaments.map((filament) => filament.vendor),
+    filament_ids: filaments.map((filament) => filament.id),
+    filament_settings_id: filaments.map((filament) => filament.settingsId),
+  };
 
   return JSON.stringify(settings, null, 2);
 }
 
-function generateCutInformation(objectReferences: { id: number; uuid: string }[]): string {
+// One entry per top-level object, numbered from 1
+function generateCutInformation(objectCount: number): string {
   let xml = `<?xml version="1.0" encoding="utf-8"?>
 <objects>
 `;
   
-  for (const obj of objectReferences) {
-    xml += ` <object id="${obj.id}">
+  for (let i = 0; i < objectCount; i++) {
+    xml += ` <object id="${i + 1}">
   <cut_id id="0" check_sum="1" connectors_cnt="0"/>
  </object>
 `;
@@ -407,17 +563,3 @@ function generateSliceInfo(): string {
   </header>
 </config>`;
 }
-
-async function createZipArchive(sourceDir: string, outputPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const output = fs.createWriteStream(outputPath);
-    const archive = archiver('zip', { zlib: { level: 9 } });
-
-    output.on('close', () => resolve());
-    archive.on('error', (err) => reject(err));
-
-    archive.pipe(output);
-    archive.directory(sourceDir, false);
-    archive.finalize();
-  });
-}
@@ -0,0 +1,149 @@
+import { ColorChange, ColorChangePlan } from './color-change';
+import { colorDistance, FilamentColor, hexToRgb, rgbToHex, unpackRgb } from './colors';
+import { ColorMetric } from './color-science';
+import { BlendConfig } from './config';
+import { FilamentCatalog, filamentLabel, resolveFilament } from './filaments';
+import { LabelGrid } from './mesher';
+
+export const DEFAULT_BLEND_LAYER_HEIGHT = 0.08;
+
+type Rgb = { r: number; g: number; b: number };
+
+// One filament of the stack, with its share of the layers
+export interface BlendFilament {
+  name: string; // color name from the config
+  filament?: FilamentColor;
+  hex: string; // color as #rrggbb, for filaments given as hex colors too
+  rgb: Rgb;
+  td: number;
+  firstLayer: number; // layers [firstLayer, endLayer) are printed in this filament
+  endLayer: number;
+}
+
+export interface BlendStack {
+  layerHeight: number;
+  filaments: BlendFilament[];
+  levelColors: Rgb[]; // color seen from above when a pixel is printed up to level n (1-based layers)
+}
+
+// Resolve the configured filaments and lay them out bottom to top in whole layers
+export function createBlendStack(blend: BlendConfig, catalogs: FilamentCatalog[]): BlendStack {
+  const layerHeight = blend.layerHeight ?? DEFAULT_BLEND_LAYER_HEIGHT;
+
+  let layer = 0;
+  const filaments = blend.filaments.map((entry): BlendFilament => {
+    const filament = resolveFilament(entry.color, entry.catalog, catalogs);
+    if (!filament && !/^#[0-9a-f]{6}$/i.test(entry.color)) {
+      throw new Error(`Blend filament "${entry.color}" not found in the selected catalogs (a hex color works too)`);
+    }
+    const td = entry.td ?? filament?.td;
+    if (td === undefined) {
+      throw new Error(
+        `Blend filament "${entry.color}" has no transmission distance: set "td" in the blend config or its catalog`
+      );
+    }
+
+    const layers = Math.max(1, Math.round((entry.thickness ?? td) / layerHeight));
+    const firstLayer = layer;
+    layer += layers;
+    const rgb = filament?.rgb ?? hexToRgb(entry.color);
+    return {
+      name: entry.color,
+      filament,
+      hex: filament?.hex ?? rgbToHex(rgb.r, rgb.g, rgb.b),
+      rgb,
+      td,
+      firstLayer,
+      endLayer: layer,
+    };
+  });
+
+  // The base starts out as its own color; every layer on top blends its filament over what
+  // is below, covering it fully once td of the filament has been printed
+  const levelColors: Rgb[] = [];
+  let seen = { ...filaments[0].rgb };
+  for (const filament of filaments) {
+    const below = seen;
+    for (let n = filament.firstLayer; n < filament.endLayer; n++) {
+      const coverage = Math.min(1, ((n - filament.firstLayer + 1) * layerHeight) / filament.td);
+      seen = {
+        r: below.r + (filament.rgb.r - below.r) * coverage,
+        g: below.g + (filament.rgb.g - below.g) * coverage,
+        b: below.b + (filament.rgb.b - below.b) * coverage,
+      };
+      levelColors[n + 1] = seen;
+    }
+  }
+
+  return { layerHeight, filaments, levelColors };
+}
+
+// Number of layers to print at every pixel (0 for background): the level whose stacked
+// color is closest to the pixel, never lower than the base filament
+export function assignBlendLevels(
+  rgb: Uint32Array,
+  backgroundMask: Uint8Array,
+  stack: BlendStack,
+  metric: ColorMetric
+): Uint16Array {
+  const levels = new Uint16Array(rgb.length);
+  const firstLevel = stack.filaments[0].endLayer;
+  const lastLevel = stack.filaments[stack.filaments.length - 1].endLayer;
+  const cache = new Map<number, number>();
+
+  for (let i = 0; i < rgb.length; i++) {
+    if (backgroundMask[i]) continue;
+
+    let level = cache.get(rgb[i]);
+    if (level === undefined) {
+      const color = unpackRgb(rgb[i]);
+      let bestDistance = Infinity;
+      for (let n = firstLevel; n <= lastLevel; n++) {
+        const distance = colorDistance(color, stack.levelColors[n], metric);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          level = n;
+        }
+      }
+      cache.set(rgb[i], level!);
+    }
+    levels[i] = level!;
+  }
+
+  return levels;
+}
+
+// Label grid of one filament's part of the stack: the label is the level the pixel is
+// printed up to within the filament's layers, -1 where the filament isn't printed
+export function blendLabelGrid(levels: Uint16Array, width: number, height: number, filament: BlendFilament): LabelGrid {
+  const labels = new Int32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    labels[i] = levels[i] > filament.firstLayer ? Math.min(levels[i], filament.endLayer) : -1;
+  }
+  return { width, height, labels };
+}
+
+// Filament swaps as a color change plan: the stack's filaments in order, each starting at
+// its first layer. Filaments no pixel reaches are left out by the caller.
+export function planBlendSwaps(
+  filaments: BlendFilament[],
+  layerHeight: number,
+  command: ColorChangePlan['command'] = 'color-change'
+): ColorChangePlan {
+  const label = (filament: BlendFilament) => (filament.filament ? filamentLabel(filament.filament) : filament.name);
+  return {
+    command,
+    startColor: filaments[0].hex,
+    startLabel: label(filaments[0]),
+    changes: filaments.slice(1).map(
+      (filament): ColorChange => ({
+        layer: filament.firstLayer + 1,
+        z: (filament.firstLayer + 1) * layerHeight,
+        bandBottom: filament.firstLayer * layerHeight,
+        aligned: true,
+        color: filament.hex,
+        label: label(filament),
+      })
+    ),
+  };
+}
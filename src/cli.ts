@@ -3,18 +3,180 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { processImageTo3MF, generateConfigFromImage } from './processor';
-import { getConfigPath, configExists } from './config';
+import {
+  getConfigPath,
+  configExists,
+  ConfigOptions,
+  MAX_QUANTIZE_COLORS,
+  OUTPUT_PROFILES,
+  OutputProfile,
+  EXPORT_FORMATS,
+  ExportFormat,
+  QUANTIZE_ALGORITHMS,
+  QuantizeAlgorithm,
+} from './config';
 import { analyzeImage } from './image-processor';
+import { COLOR_METRICS, ColorMetric } from './color-science';
+import { BUNDLED_CATALOGS } from './filaments';
+import { PRINTER_PROFILES, isPrinterProfile } from './printers';
+
+const USAGE = `Usage: img-to-3mf <image-file> [options]
+
+Options:
+  --mesher <native|openscad>       Mesh generation backend (default: native)
+  --metric <rgb|lab|ciede2000>     Color matching metric (default for new configs: ciede2000)
+  --filaments <catalog,...>        Filament catalogs to pick from: ${Object.keys(BUNDLED_CATALOGS).join(', ')}
+                                   or paths to JSON catalog files (default: bambu-pla-basic)
+  --max-filaments <n>              Merge image colors into at most n filaments
+  --background <strategy>          Background detection: alpha, flood, none or a hex color
+                                   (default for new configs: alpha if the image has transparency)
+  --quantize <algorithm>           Color quantization: ${QUANTIZE_ALGORITHMS.join(', ')} (default: cluster)
+  --colors <n>                     Target number of image colors (default: 16)
+  --nozzle <mm>                    Clean up features too small for this nozzle diameter
+  --antialias                      Resolve blended edge pixels of anti-aliased art
+  --color-change <color-change|pause>
+                                   Plan filament changes by layer for a single extruder
+  --profile <${OUTPUT_PROFILES.join('|')}>
+                                   Slicer the 3MF is written for (default: bambu)
+  --format <format,...>            Files to write: ${EXPORT_FORMATS.join(', ')} (default: 3mf)
+  --printer <${Object.keys(PRINTER_PROFILES).join('|')}>
+                                   Printer whose plate the design is placed on (default: x1c)
+  --single-object                  Emit one object with a part per color
+  --keep-temp                      Keep intermediate files in the temp directory for debugging
+  --deterministic                  Byte-identical output for the same inputs
+  --timestamp <date>               Date written into the outputs, ISO 8601 (e.g. 2024-01-01T00:00:00Z)`;
+
+interface CliArgs {
+  imageFilepath?: string;
+  overrides: ConfigOptions;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  const result: CliArgs = { overrides: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--mesher') {
+      const value = args[++i];
+      if (value !== 'native' && value !== 'openscad') {
+        throw new Error(`Invalid --mesher value "${value}" (expected "native" or "openscad")`);
+      }
+      result.overrides.mesher = value;
+    } else if (arg === '--metric') {
+      const value = args[++i] as ColorMetric;
+      if (!COLOR_METRICS.includes(value)) {
+        throw new Error(`Invalid --metric value "${value}" (expected ${COLOR_METRICS.join(', ')})`);
+      }
+      result.overrides.colorMetric = value;
+    } else if (arg === '--filaments') {
+      const value = args[++i];
+      if (!value) {
+        throw new Error('Missing --filaments value');
+      }
+      result.overrides.filaments = value.split(',').map((id) => id.trim()).filter((id) => id.length > 0);
+    } else if (arg === '--max-filaments') {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error(`Invalid --max-filaments value "${args[i]}" (expected a positive whole number)`);
+      }
+      result.overrides.maxFilaments = value;
+    } else if (arg === '--background') {
+      const value = args[++i];
+      if (value === 'alpha' || value === 'flood' || value === 'none') {
+        result.overrides.background = { strategy: value };
+      } else if (/^#[0-9a-f]{6}$/i.test(value ?? '')) {
+        result.overrides.background = { strategy: 'color', color: value };
+      } else {
+        throw new Error(`Invalid --background value "${value}" (expected alpha, flood, none or a hex color)`);
+      }
+    } else if (arg === '--quantize') {
+      const value = args[++i] as QuantizeAlgorithm;
+      if (!QUANTIZE_ALGORITHMS.includes(value)) {
+        throw new Error(`Invalid --quantize value "${value}" (expected ${QUANTIZE_ALGORITHMS.join(', ')})`);
+      }
+      result.overrides.quantize = { ...result.overrides.quantize, algorithm: value };
+    } else if (arg === '--colors') {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value <= 0 || value > MAX_QUANTIZE_COLORS) {
+        throw new Error(`Invalid --colors value "${args[i]}" (expected a whole number from 1 to ${MAX_QUANTIZE_COLORS})`);
+      }
+      result.overrides.quantize = { ...result.overrides.quantize, colors: value };
+    } else if (arg === '--nozzle') {
+      const value = Number(args[++i]);
+      if (!(value > 0)) {
+        throw new Error(`Invalid --nozzle value "${args[i]}" (expected a diameter in mm)`);
+      }
+      result.overrides.cleanup = { ...result.overrides.cleanup, nozzleDiameter: value };
+    } else if (arg === '--antialias') {
+      result.overrides.antialias = true;
+    } else if (arg === '--color-change') {
+      const value = args[++i];
+      if (value !== 'color-change' && value !== 'pause') {
+        throw new Error(`Invalid --color-change value "${value}" (expected color-change or pause)`);
+      }
+      result.overrides.colorChange = { ...result.overrides.colorChange, command: value };
+    } else if (arg === '--profile') {
+      const value = args[++i] as OutputProfile;
+      if (!OUTPUT_PROFILES.includes(value)) {
+        throw new Error(`Invalid --profile value "${value}" (expected ${OUTPUT_PROFILES.join(', ')})`);
+      }
+      result.overrides.outputProfile = value;
+    } else if (arg === '--format') {
+      const value = args[++i];
+      const formats = (value ?? '').split(',').map((format) => format.trim()) as ExportFormat[];
+      const unknown = formats.filter((format) => !EXPORT_FORMATS.includes(format));
+      if (!value || unknown.length > 0) {
+        throw new Error(`Invalid --format value "${value}" (expected a list of ${EXPORT_FORMATS.join(', ')})`);
+      }
+      result.overrides.formats = formats;
+    } else if (arg === '--printer') {
+      const value = args[++i];
+      if (!isPrinterProfile(value)) {
+        throw new Error(`Invalid --printer value "${value}" (expected ${Object.keys(PRINTER_PROFILES).join(', ')})`);
+      }
+      result.overrides.printer = value;
+    } else if (arg === '--single-object') {
+      result.overrides.singleObject = true;
+    } else if (arg === '--keep-temp') {
+      result.overrides.keepTemp = true;
+    } else if (arg === '--deterministic') {
+      result.overrides.deterministic = true;
+    } else if (arg === '--timestamp') {
+      const value = args[++i];
+      if (!value || isNaN(Date.parse(value))) {
+        throw new Error(`Invalid --timestamp value "${value}" (expected an ISO 8601 date like 2024-01-01T00:00:00Z)`);
+      }
+      result.overrides.timestamp = value;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (result.imageFilepath === undefined) {
+      result.imageFilepath = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return result;
+}
 
 async function main() {
-  const args = process.argv.slice(2);
+  let cliArgs: CliArgs;
+  try {
+    cliArgs = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
 
-  if (args.length === 0) {
-    console.error('Usage: img-to-3mf <image-file>');
+  if (cliArgs.imageFilepath === undefined) {
+    console.error(USAGE);
     process.exit(1);
   }
 
-  const imageFilepath = args[0];
+  const imageFilepath = cliArgs.imageFilepath;
+  const overrides = cliArgs.overrides;
 
   // Check if image file exists
   if (!fs.existsSync(imageFilepath)) {
@@ -29,13 +191,21 @@ async function main() {
   const configFilepath = getConfigPath(imageFilepath);
   const outputFilepath = imageFilepath.replace(path.extname(imageFilepath), '.3mf');
 
+  // Catalog files given on the command line are relative to the current directory,
+  // but the config stores them relative to itself
+  if (overrides.filaments) {
+    overrides.filaments = overrides.filaments.map((id) =>
+      BUNDLED_CATALOGS[id] ? id : path.relative(path.dirname(path.resolve(configFilepath)), path.resolve(id))
+    );
+  }
+
   if (!configExists(configFilepath)) {
     // First run: generate config file
-    await generateConfigFromImage(imageFilepath, configFilepath);
+    await generateConfigFromImage(imageFilepath, configFilepath, overrides);
   } else {
     // Subsequent run: process image to 3MF
     try {
-      await processImageTo3MF(imageFilepath, configFilepath, outputFilepath);
+      await processImageTo3MF(imageFilepath, configFilepath, outputFilepath, overrides);
     } catch (error: any) {
       console.error(`Error: ${error.message}`);
       process.exit(1);
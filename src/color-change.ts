@@ -0,0 +1,102 @@
+import { ColoredObject, filamentKey } from './3mf';
+import { ColorChangeConfig } from './config';
+import { filamentLabel } from './filaments';
+
+export const DEFAULT_COLOR_CHANGE_LAYER_HEIGHT = 0.2;
+
+// Heights closer than this are the same
+const EPSILON = 1e-4;
+
+// Filament change at the start of a height band
+export interface ColorChange {
+  layer: number; // first layer printed in the new filament (1-based)
+  z: number; // top of that layer in mm, as slicers store it
+  bandBottom: number; // where the band starts in the design
+  aligned: boolean; // false if the band doesn't start on a layer boundary
+  color: string; // hex color of the new filament
+  label: string;
+}
+
+export interface ColorChangePlan {
+  command: 'color-change' | 'pause';
+  startColor: string;
+  startLabel: string;
+  changes: ColorChange[];
+}
+
+function objectLabel(object: ColoredObject): string {
+  return object.filament ? filamentLabel(object.filament) : object.filamentName;
+}
+
+// Sort the objects into stacked height bands by where they end: everything ending in a
+// band is topped with that band's filament, so all objects ending at the same height must
+// share a filament. Consecutive bands of the same filament need no change between them.
+export function planColorChanges(
+  objects: ColoredObject[],
+  colorChange: ColorChangeConfig,
+  defaultLayerHeight: number = DEFAULT_COLOR_CHANGE_LAYER_HEIGHT
+): ColorChangePlan {
+  const layerHeight = colorChange.layerHeight ?? defaultLayerHeight;
+  const firstLayerHeight = colorChange.firstLayerHeight ?? layerHeight;
+
+  const tops = new Map<number, ColoredObject[]>();
+  for (const object of objects) {
+    let top = -Infinity;
+    for (const vertex of object.mesh.vertices) top = Math.max(top, vertex.z);
+    const key = Math.round(top / EPSILON) * EPSILON;
+    if (!tops.has(key)) tops.set(key, []);
+    tops.get(key)!.push(object);
+  }
+
+  const bands: { bottom: number; object: ColoredObject }[] = [];
+  let bottom = 0;
+  for (const top of Array.from(tops.keys()).sort((a, b) => a - b)) {
+    const ending = tops.get(top)!;
+    const keys = new Set(ending.map(filamentKey));
+    if (keys.size > 1) {
+      throw new Error(
+        `Cannot plan filament changes: ${ending.map(objectLabel).join(', ')} all end at ${top.toFixed(2)}mm. ` +
+          'Give them different heights or the same filament.'
+      );
+    }
+    if (bands.length === 0 || filamentKey(bands[bands.length - 1].object) !== filamentKey(ending[0])) {
+      bands.push({ bottom, object: ending[0] });
+    }
+    bottom = top;
+  }
+  if (bands.length === 0) {
+    throw new Error('Cannot plan filament changes: the design is empty');
+  }
+
+  // Layer n (1-based) spans [firstLayerHeight + (n - 2) * layerHeight, firstLayerHeight + (n - 1) * layerHeight]
+  const changes = bands.slice(1).map(({ bottom, object }): ColorChange => {
+    const layer = bottom <= firstLayerHeight - EPSILON ? 2 : Math.ceil((bottom - firstLayerHeight) / layerHeight - EPSILON) + 2;
+    const layerBottom = firstLayerHeight + (layer - 2) * layerHeight;
+    return {
+      layer,
+      z: layerBottom + layerHeight,
+      bandBottom: bottom,
+      aligned: Math.abs(layerBottom - bottom) < EPSILON,
+      color: object.color,
+      label: objectLabel(object),
+    };
+  });
+
+  return {
+    command: colorChange.command ?? 'color-change',
+    startColor: bands[0].object.color,
+    startLabel: objectLabel(bands[0].object),
+    changes,
+  };
+}
+
+// Human-readable plan, one line per step
+export function describeColorChangePlan(plan: ColorChangePlan): string[] {
+  const action = plan.command === 'pause' ? 'pause and load' : 'change filament to';
+  return [
+    `Start with ${plan.startLabel}`,
+    ...plan.changes.map(
+      (change) => `Layer ${change.layer} (${change.z.toFixed(2)}mm): ${action} ${change.label} (${change.color})`
+    ),
+  ];
+}
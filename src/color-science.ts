@@ -0,0 +1,169 @@
+// Color science helpers: CIELAB conversion and perceptual color differences
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// How color differences are measured:
+// - rgb: Euclidean distance in sRGB (0-255 per channel)
+// - lab: Euclidean distance in CIELAB (CIE76 delta E)
+// - ciede2000: CIEDE2000 delta E, the most perceptually uniform
+export type ColorMetric = 'rgb' | 'lab' | 'ciede2000';
+
+export const COLOR_METRICS: ColorMetric[] = ['rgb', 'lab', 'ciede2000'];
+
+// D65 reference white
+const REF_X = 95.047;
+const REF_Y = 100.0;
+const REF_Z = 108.883;
+
+// Lab values of whole 0-255 colors, by packed 0xRRGGBB value. Emptied when it reaches
+// LAB_CACHE_LIMIT entries so photos with many colors don't grow it without bound.
+const labCache = new Map<number, LabColor>();
+const LAB_CACHE_LIMIT = 1 << 18;
+
+function isByte(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 255;
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+export function rgbToLab(rgb: { r: number; g: number; b: number }): LabColor {
+  // Fractional colors (k-means centroids, blend mixtures) are converted as they are
+  const cacheable = isByte(rgb.r) && isByte(rgb.g) && isByte(rgb.b);
+  const key = (rgb.r << 16) | (rgb.g << 8) | rgb.b;
+  const cached = cacheable ? labCache.get(key) : undefined;
+  if (cached) return cached;
+
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+
+  // Linear sRGB to XYZ (D65)
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) * 100;
+  const y = (r * 0.2126729 + g * 0.7151522 + b * 0.072175) * 100;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) * 100;
+
+  const fx = labF(x / REF_X);
+  const fy = labF(y / REF_Y);
+  const fz = labF(z / REF_Z);
+
+  const lab = {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+  if (cacheable) {
+    if (labCache.size >= LAB_CACHE_LIMIT) labCache.clear();
+    labCache.set(key, lab);
+  }
+  return lab;
+}
+
+export function labToRgb(lab: LabColor): { r: number; g: number; b: number } {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+
+  const inverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+  const x = (inverse(fx) * REF_X) / 100;
+  const y = (inverse(fy) * REF_Y) / 100;
+  const z = (inverse(fz) * REF_Z) / 100;
+
+  const r = x * 3.2404542 + y * -1.5371385 + z * -0.4985314;
+  const g = x * -0.969266 + y * 1.8760108 + z * 0.041556;
+  const b = x * 0.0556434 + y * -0.2040259 + z * 1.0572252;
+
+  const toSrgb = (c: number) => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.min(255, Math.max(0, v * 255));
+  };
+
+  return { r: toSrgb(r), g: toSrgb(g), b: toSrgb(b) };
+}
+
+// CIE76: straight-line distance in Lab
+export function deltaE76(lab1: LabColor, lab2: LabColor): number {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+}
+
+// CIEDE2000 color difference (Sharma, Wu and Dalal formulation)
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const deg = Math.PI / 180;
+
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cBar = (c1 + c2) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const c1p = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const c2p = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / deg;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(lab1.b, a1);
+  const h2p = hueAngle(lab2.b, a2);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * deg);
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarP = (h1p + h2p + 360) / 2;
+    else hBarP = (h1p + h2p - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarP - 30) * deg) +
+    0.24 * Math.cos(2 * hBarP * deg) +
+    0.32 * Math.cos((3 * hBarP + 6) * deg) -
+    0.2 * Math.cos((4 * hBarP - 63) * deg);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hBarP - 275) / 25, 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const lBarP50 = Math.pow(lBarP - 50, 2);
+  const sl = 1 + (0.015 * lBarP50) / Math.sqrt(20 + lBarP50);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * deg) * rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / sl, 2) +
+    Math.pow(dCp / sc, 2) +
+    Math.pow(dHp / sh, 2) +
+    rt * (dCp / sc) * (dHp / sh)
+  );
+}
@@ -1,9 +1,17 @@
+import { ColorMetric, rgbToLab, deltaE76, deltaE2000 } from './color-science';
+
 // Bambu Lab Basic PLA filament colors
 // Based on Bambu Lab's standard color offerings
 export interface FilamentColor {
   name: string;
   hex: string;
   rgb: { r: number; g: number; b: number };
+  brand?: string; // e.g. "Bambu Lab"
+  material?: string; // product line, e.g. "PLA Matte"
+  type?: string; // generic filament type, e.g. "PLA" or "PETG"
+  td?: number; // transmission distance in mm
+  settingsId?: string; // slicer filament preset name, without the printer suffix
+  filamentId?: string; // slicer filament id, e.g. "GFA00"
 }
 
 export const BAMBU_BASIC_COLORS: FilamentColor[] = [
@@ -40,10 +48,31 @@ export function rgbToHex(r: number, g: number, b: number): string {
   }).join('');
 }
 
+// Colors packed into one number as 0xRRGGBB, for compact pixel buffers
+export function packRgb(rgb: { r: number; g: number; b: number }): number {
+  return (Math.round(rgb.r) << 16) | (Math.round(rgb.g) << 8) | Math.round(rgb.b);
+}
+
+export function unpackRgb(color: number): { r: number; g: number; b: number } {
+  return { r: (color >> 16) & 0xff, g: (color >> 8) & 0xff, b: color & 0xff };
+}
+
+export function packedToHex(color: number): string {
+  return '#' + color.toString(16).padStart(6, '0');
+}
+
 export function colorDistance(
   c1: { r: number; g: number; b: number },
-  c2: { r: number; g: number; b: number }
+  c2: { r: number; g: number; b: number },
+  metric: ColorMetric = 'rgb'
 ): number {
+  if (metric === 'lab') {
+    return deltaE76(rgbToLab(c1), rgbToLab(c2));
+  }
+  if (metric === 'ciede2000') {
+    return deltaE2000(rgbToLab(c1), rgbToLab(c2));
+  }
+
   // Euclidean distance in RGB space
   return Math.sqrt(
     Math.pow(c1.r - c2.r, 2) +
@@ -52,12 +81,15 @@ export function colorDistance(
   );
 }
 
-export function findNearestBambuColor(rgb: { r: number; g: number; b: number }): FilamentColor {
+export function findNearestBambuColor(
+  rgb: { r: number; g: number; b: number },
+  metric: ColorMetric = 'rgb'
+): FilamentColor {
   let nearest = BAMBU_BASIC_COLORS[0];
-  let minDistance = colorDistance(rgb, nearest.rgb);
+  let minDistance = colorDistance(rgb, nearest.rgb, metric);
 
   for (const color of BAMBU_BASIC_COLORS) {
-    const distance = colorDistance(rgb, color.rgb);
+    const distance = colorDistance(rgb, color.rgb, metric);
     if (distance < minDistance) {
       minDistance = distance;
       nearest = color;
@@ -1,11 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse as parseJsonc } from 'jsonc-parser';
-import { findNearestBambuColor, hexToRgb } from './colors';
+import { ColorMetric, COLOR_METRICS } from './color-science';
+import { BUNDLED_CATALOGS, DEFAULT_FILAMENT_CATALOG, FilamentCatalog } from './filaments';
+import { assignFilaments } from './filament-reduction';
+import { DEFAULT_LITHOPHANE_MAX_THICKNESS, DEFAULT_LITHOPHANE_MIN_THICKNESS } from './lithophane';
+import { CustomPrinterConfig, PRINTER_PROFILES, isPrinterProfile, resolvePrinter } from './printers';
+
+// Metric written into newly generated configs. Configs without a colorMetric
+// keep using RGB so their color keys stay stable.
+export const DEFAULT_COLOR_METRIC: ColorMetric = 'ciede2000';
 
 export interface ColorConfig {
   height: number;
-  color: string; // Bambu filament color name
+  color: string; // filament color name
+  catalog?: string; // catalog the color name comes from (default: first selected catalog that has it)
+  error?: number; // color difference to the filament, recorded when filaments were reduced
 }
 
 export interface BackingConfig {
@@ -16,33 +26,229 @@ export interface BackingConfig {
 export interface SandwichConfig {
   color: string;
   thickness: number;
+  // Where plane material goes for colors thinner than the plane (default "above")
+  fill?: 'above' | 'below';
+}
+
+// Lithophane / heightmap panel: one filament whose thickness follows the brightness of
+// the image. Bright pixels are thickest, or with invert the dark ones are (for backlit
+// lithophanes). Curved panels stand upright, bent around a vertical axis by `angle` degrees.
+export interface LithophaneConfig {
+  color: string;
+  minThickness?: number; // mm, default 0.8
+  maxThickness?: number; // mm, default 3
+  invert?: boolean;
+  frame?: { width: number; thickness?: number }; // border in mm, thickness defaults to maxThickness
+  shape?: 'flat' | 'curved'; // default "flat"
+  angle?: number; // degrees of arc for curved panels, default 120
+}
+
+// HueForge-style blending: translucent filaments stacked bottom to top in the given order.
+// Every pixel is printed up to the layer whose stacked color comes closest to the image.
+// A filament covers what is below it completely once it is td (transmission distance) thick.
+export interface BlendFilamentConfig {
+  color: string;
+  catalog?: string;
+  td?: number; // mm, default: the catalog entry's td
+  thickness?: number; // mm of this filament in the stack, default its td (in whole layers)
+}
+
+export interface BlendConfig {
+  layerHeight?: number; // mm, default 0.08
+  filaments: BlendFilamentConfig[]; // bottom (base) first, at least two
+}
+
+// Single-extruder printing: the design is printed in height bands of one filament each,
+// with a filament change (M600) or a pause at the start of every band. Layer heights
+// must match the slicer's so the changes land on the right layers.
+export interface ColorChangeConfig {
+  command?: 'color-change' | 'pause'; // default "color-change"
+  layerHeight?: number; // mm, default 0.2 (blend mode uses blend.layerHeight)
+  firstLayerHeight?: number; // mm, default layerHeight
+}
+
+// Project information written into the 3MF
+export interface MetadataConfig {
+  title?: string;
+  designer?: string;
+  license?: string;
+  description?: string;
+  copyright?: string;
+}
+
+// Physical output size. Give one of width/height (both to fit inside a box),
+// longestEdge or mmPerPixel. Sizes are in mm and include the margin on each side.
+export interface SizeConfig {
+  width?: number;
+  height?: number;
+  longestEdge?: number;
+  mmPerPixel?: number;
+  margin?: number;
+}
+
+// Designs larger than the plate are split into a grid of tiles, each printed on its own
+// plate. In backing mode the tiles are keyed together along the cuts: tabs stick out of the
+// lower half of one tile's backing into sockets in the next.
+export type TileKeyStyle = 'none' | 'pegs' | 'dovetail';
+export const TILE_KEY_STYLES: TileKeyStyle[] = ['none', 'pegs', 'dovetail'];
+
+export interface TilingConfig {
+  keys?: TileKeyStyle; // default "pegs" in backing mode, otherwise "none"
+  keySize?: number; // mm, width of a key (default 8); keys stick out half as far
+  keySpacing?: number; // mm between keys along a cut (default 50)
+  clearance?: number; // mm of play between a key and its socket (default 0.2)
+}
+
+// How background pixels are found:
+// - alpha: pixels more transparent than threshold (0-255, default 128)
+// - flood: regions of similar color connected to the image edges
+// - color: every pixel close to the given hex color (tolerance in colorMetric units)
+// - none: the whole image is foreground
+export type BackgroundConfig =
+  | { strategy: 'alpha'; threshold?: number }
+  | { strategy: 'flood' }
+  | { strategy: 'color'; color: string; tolerance?: number }
+  | { strategy: 'none' };
+
+// How image colors are reduced to a palette:
+// - cluster: greedy merge of similar colors (the original behavior)
+// - median-cut, kmeans (in CIELAB) or octree
+export type QuantizeAlgorithm = 'cluster' | 'median-cut' | 'kmeans' | 'octree';
+
+export const QUANTIZE_ALGORITHMS: QuantizeAlgorithm[] = ['cluster', 'median-cut', 'kmeans', 'octree'];
+
+// Largest palette the image pipeline can index
+export const MAX_QUANTIZE_COLORS = 254;
+
+// Four AMS units of four slots each
+export const MAX_AMS_SLOTS = 16;
+
+export interface QuantizeConfig {
+  algorithm?: QuantizeAlgorithm; // default "cluster"
+  colors?: number; // target number of colors (default 16)
+  palette?: string[]; // fixed hex colors the result is snapped to
+}
+
+// Cleanup of features too small to print. Lines and gaps narrower than the nozzle and
+// islands or holes smaller than minFeatureArea (mm², default nozzleDiameter squared)
+// are handed to the neighboring color.
+export interface CleanupConfig {
+  nozzleDiameter?: number; // mm, default 0.4
+  minFeatureArea?: number;
+}
+
+// Mesh generation backend: the built-in mesher, or OpenSCAD if installed
+export type MesherBackend = 'native' | 'openscad';
+
+// How color regions are meshed: each mask on its own, or all colors from one shared
+// partition of the image so neighboring regions meet exactly (native mesher only)
+export type MeshingMode = 'independent' | 'shared';
+
+// Slicer the 3MF is written for: its own metadata files, or only standard 3MF materials
+export type OutputProfile = 'bambu' | 'prusa' | 'orca' | 'core';
+export const OUTPUT_PROFILES: OutputProfile[] = ['bambu', 'prusa', 'orca', 'core'];
+
+// Files written for the design: the 3MF, one STL per color, OBJ + MTL, SVG outlines per
+// color, or an OpenSCAD file of extruded outlines
+export type ExportFormat = '3mf' | 'stl' | 'obj' | 'svg' | 'scad';
+export const EXPORT_FORMATS: ExportFormat[] = ['3mf', 'stl', 'obj', 'svg', 'scad'];
+
+export interface ConfigOptions {
+  backing?: BackingConfig;
+  sandwich?: SandwichConfig;
+  lithophane?: LithophaneConfig;
+  blend?: BlendConfig;
+  // Filament change plan for printers without an AMS
+  colorChange?: ColorChangeConfig;
+  mesher?: MesherBackend;
+  meshing?: MeshingMode;
+  // 3MF flavor (default "bambu")
+  outputProfile?: OutputProfile;
+  // Files to write (default ["3mf"])
+  formats?: ExportFormat[];
+  // Printer the design is placed on and checked against: a profile id or a custom plate size
+  // (default "x1c")
+  printer?: string | CustomPrinterConfig;
+  // Split designs larger than the plate into tiles on separate plates
+  tiling?: TilingConfig;
+  size?: SizeConfig;
+  colorMetric?: ColorMetric;
+  // Filament catalogs to pick from: bundled catalog ids or paths to JSON files
+  // (relative to the config file). Default: ["bambu-pla-basic"]
+  filaments?: string[];
+  // Most distinct filaments to suggest (e.g. 4 for one AMS); image colors are merged to fit
+  maxFilaments?: number;
+  // Background detection (default "flood"; new configs pick "alpha" for images with transparency)
+  background?: BackgroundConfig;
+  quantize?: QuantizeConfig;
+  cleanup?: CleanupConfig;
+  // Give blended edge pixels of anti-aliased art to the regions they blend between
+  antialias?: boolean;
+  // AMS slot (1-16) for filaments, by name as in "colors" or full label; the rest fill free slots
+  amsSlots?: Record<string, number>;
+  // Emit the design as one object with a part per color instead of one object per color
+  singleObject?: boolean;
+  // Keep the intermediate files (OpenSCAD masks and meshes) in the temp directory for debugging
+  keepTemp?: boolean;
+  metadata?: MetadataConfig;
+  // Byte-identical output for the same inputs: UUIDs from content hashes, a fixed date
+  deterministic?: boolean;
+  // Date written into the outputs, ISO 8601 (default: SOURCE_DATE_EPOCH if set, else now,
+  // or 1980-01-01 in deterministic mode)
+  timestamp?: string;
 }
 
 export interface Config {
   colors: Record<string, ColorConfig>;
-  options: {
-    backing?: BackingConfig;
-    sandwich?: SandwichConfig;
-  };
+  options: ConfigOptions;
 }
 
-export function generateDefaultConfig(modalColors: string[]): Config {
+export function generateDefaultConfig(
+  modalColors: string[],
+  colorMetric: ColorMetric = DEFAULT_COLOR_METRIC,
+  catalogs: FilamentCatalog[] = [BUNDLED_CATALOGS[DEFAULT_FILAMENT_CATALOG]],
+  maxFilaments?: number,
+  pixelCounts?: Map<string, number>
+): Config {
   const colors: Record<string, ColorConfig> = {};
 
-  for (const hexColor of modalColors) {
-    const rgb = hexToRgb(hexColor);
-    const bambuColor = findNearestBambuColor(rgb);
-
-    colors[hexColor] = {
+  const assignments = assignFilaments(modalColors, catalogs, colorMetric, maxFilaments, pixelCounts);
+  for (const assignment of assignments) {
+    colors[assignment.hex] = {
       height: 1.2,
-      color: bambuColor.name,
+      color: assignment.filament.name,
+      catalog: assignment.catalog.id,
     };
+    if (maxFilaments !== undefined) {
+      colors[assignment.hex].error = Math.round(assignment.distance * 10) / 10;
+    }
+  }
+
+  const options: ConfigOptions = { colorMetric };
+  if (maxFilaments !== undefined) options.maxFilaments = maxFilaments;
+
+  return { colors, options };
+}
+
+// Comment lines listing image colors that share a filament, with the error of each
+function describeMergedColors(config: Config): string {
+  const groups = new Map<string, string[]>();
+  for (const [hexColor, colorConfig] of Object.entries(config.colors)) {
+    const key = colorConfig.catalog ? `${colorConfig.color} (${colorConfig.catalog})` : colorConfig.color;
+    const entry = colorConfig.error !== undefined ? `${hexColor} (error ${colorConfig.error})` : hexColor;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
   }
 
-  return {
-    colors,
-    options: {},
-  };
+  const merged = Array.from(groups.entries()).filter(([, entries]) => entries.length > 1);
+  if (merged.length === 0) return '';
+
+  const metric = config.options.colorMetric ?? 'rgb';
+  return `// Merged colors: these image colors share one filament and extruder
+// (error is the ${metric} color difference to the filament):
+${merged.map(([filament, entries]) => `//   ${filament}: ${entries.join(', ')}`).join('\n')}
+//
+`;
 }
 
 export function writeConfig(filepath: string, config: Config): void {
@@ -65,17 +271,188 @@ export function writeConfig(filepath: string, config: Config): void {
 //   }
 //
 // Option 3: Sandwich mode  
-// Colors embedded within a plane, flush on both front and back
+// Colors inlaid into a plane, which has every color cut out of it.
+// Colors thinner than the plane get plane material filled in "above" or "below" them.
 //   "options": {
 //     "sandwich": {
 //       "color": "black",
-//       "thickness": 1.2
+//       "thickness": 1.2,
+//       "fill": "above"
+//     }
+//   }
+//
+// Option 4: Lithophane mode
+// One panel whose thickness follows the image brightness (colors above are ignored).
+// "invert" makes dark areas thick, for backlit lithophanes. Optional frame (mm) and
+// "shape": "flat" or "curved" (standing upright, bent by "angle" degrees):
+//   "options": {
+//     "lithophane": {
+//       "color": "white",
+//       "minThickness": 0.8,
+//       "maxThickness": 3,
+//       "invert": true,
+//       "frame": { "width": 5 },
+//       "shape": "flat"
+//     }
+//   }
+//
+// Option 5: Blend mode
+// Translucent filaments stacked bottom to top; every pixel is printed as high as needed
+// for the stack to approximate its color (colors above are ignored). "td" is the
+// transmission distance in mm, "thickness" how much of the stack each filament gets:
+//   "options": {
+//     "blend": {
+//       "layerHeight": 0.08,
+//       "filaments": [
+//         { "color": "black", "td": 0.6, "thickness": 0.48 },
+//         { "color": "white", "td": 5 }
+//       ]
 //     }
 //   }
 //
+// Printing on a single extruder: colors (or the backing and the colors on top) are sorted
+// into height bands and a filament change is added to the 3MF where each band starts.
+// Every band must hold one filament, so give colors that end at the same height the same
+// filament. Layer heights must match the slicer settings:
+//   "options": {
+//     "colorChange": { "command": "color-change", "layerHeight": 0.2, "firstLayerHeight": 0.2 }
+//   }
+//
+// Output size (default: longest edge 100mm). Use one of width/height, longestEdge
+// or mmPerPixel, optionally with a margin kept free on each side:
+//   "options": {
+//     "size": {
+//       "width": 90,
+//       "margin": 5
+//     }
+//   }
+//
+// Color matching metric used for clustering, background detection and filament
+// suggestions: "rgb", "lab" (CIE76) or "ciede2000". Configs without it use "rgb".
+//   "options": {
+//     "colorMetric": "ciede2000"
+//   }
+//
+// Filament catalogs that color suggestions come from. Bundled: "bambu-pla-basic",
+// "bambu-pla-matte", "bambu-petg-hf", "bambu-pla-silk". A path to a JSON file adds your own:
+// { "brand": "...", "material": "...", "filaments": [{ "name": "...", "hex": "#RRGGBB", "td": 1.5 }] }
+//   "options": {
+//     "filaments": ["bambu-pla-matte", "my-filaments.json"]
+//   }
+//
+// Limit the number of filaments (e.g. 4 for one AMS, 8 for two). Colors are merged into the
+// best filaments overall; colors sharing a filament also share an extruder:
+//   "options": {
+//     "maxFilaments": 4
+//   }
+//
+// Background detection: "alpha" (transparent pixels, optional threshold 0-255),
+// "flood" (similar colors connected to the image edges), "color" (every pixel close to
+// a hex color, optional tolerance) or "none" (keep the whole image):
+//   "options": {
+//     "background": { "strategy": "alpha", "threshold": 128 }
+//   }
+//   "options": {
+//     "background": { "strategy": "color", "color": "#ffffff" }
+//   }
+//
+// Color quantization: "cluster" (default), "median-cut", "kmeans" (in CIELAB) or "octree",
+// with a target number of colors and an optional fixed palette to snap the colors to.
+// Changing these changes the color keys above, so regenerate the config afterwards:
+//   "options": {
+//     "quantize": { "algorithm": "kmeans", "colors": 6, "palette": ["#000000", "#ffffff"] }
+//   }
+//
+// Clean up features too small for the nozzle: thin lines and gaps, and islands or holes
+// smaller than minFeatureArea (mm²) are merged into the neighboring color:
+//   "options": {
+//     "cleanup": { "nozzleDiameter": 0.4, "minFeatureArea": 0.5 }
+//   }
+//
+// For anti-aliased art, give blended edge pixels to the neighboring regions instead of
+// the nearest palette color (which leaves thin halos, like grey between black and white):
+//   "options": {
+//     "antialias": true
+//   }
+//
+// Meshes are built natively by default. To use OpenSCAD instead:
+//   "options": {
+//     "mesher": "openscad"
+//   }
+//
+// The 3MF is written for Bambu Studio by default. For other slicers use "orca", "prusa"
+// (PrusaSlicer) or "core" (standard 3MF materials only, e.g. for Cura):
+//   "options": {
+//     "outputProfile": "prusa"
+//   }
+//
+// Only the 3MF is written by default. Other formats, written next to it, are "stl" (one
+// per color), "obj" (with an .mtl of filament colors), "svg" (outlines per color) and
+// "scad" (OpenSCAD, extruding the outline of every layer):
+//   "options": {
+//     "formats": ["3mf", "stl", "svg"]
+//   }
+//
+// The design is centered on a 256x256mm plate (X1 Carbon) and the build fails if it does not
+// fit. Other printers are "a1-mini" (180x180mm), "a1", "p1p" and "p1s", or a custom plate
+// size in mm (height is optional):
+//   "options": {
+//     "printer": "a1-mini"
+//   }
+//   "options": {
+//     "printer": { "name": "Voron 350", "width": 350, "depth": 350, "height": 340 }
+//   }
+//
+// To print a design larger than the plate, split it into tiles on separate plates. In
+// backing mode the tiles get "pegs" (the default) or "dovetail" keys in the backing:
+//   "options": {
+//     "size": { "width": 600 },
+//     "tiling": { "keys": "dovetail", "keySize": 8, "clearance": 0.2 }
+//   }
+//
+// Filaments take AMS slots 1, 2, 3... in order of first use. To load some in specific slots
+// (by name as in "colors", or the full label like "Bambu Lab PLA Basic red"):
+//   "options": {
+//     "amsSlots": { "red": 3, "white": 1 }
+//   }
+//
+// Every color is a separate object on the plate by default. To emit one object with a part
+// per color, so the design moves, rotates and scales as one assembly:
+//   "options": {
+//     "singleObject": true
+//   }
+//
+// Project information shown by the slicer and on model sites:
+//   "options": {
+//     "metadata": {
+//       "title": "Otter",
+//       "designer": "Jane Doe",
+//       "license": "CC-BY-4.0",
+//       "description": "Four-color otter magnet",
+//       "copyright": "(c) 2024 Jane Doe"
+//     }
+//   }
+//
+// Every build gets new object UUIDs and today's date. For byte-identical files from the
+// same inputs (e.g. to diff outputs in review), with an optional fixed date:
+//   "options": {
+//     "deterministic": true,
+//     "timestamp": "2024-01-01T00:00:00Z"
+//   }
+//
+// OpenSCAD intermediates go in a temp directory that is removed afterwards. To keep it:
+//   "options": {
+//     "keepTemp": true
+//   }
+//
+// To build all colors from one shared partition (no gaps or overlaps between colors):
+//   "options": {
+//     "meshing": "shared"
+//   }
+//
 `;
   
-  const fullContent = commentBlock + jsonContent;
+  const fullContent = commentBlock + describeMergedColors(config) + jsonContent;
   fs.writeFileSync(filepath, fullContent, 'utf-8');
 }
 
@@ -92,9 +469,390 @@ export function readConfig(filepath: string): Config {
     config.options = {};
   }
 
+  const mesher = config.options.mesher;
+  if (mesher !== undefined && mesher !== 'native' && mesher !== 'openscad') {
+    throw new Error(`Invalid config: unknown mesher "${mesher}" (expected "native" or "openscad")`);
+  }
+
+  const fill = config.options.sandwich?.fill;
+  if (fill !== undefined && fill !== 'above' && fill !== 'below') {
+    throw new Error(`Invalid config: unknown sandwich fill "${fill}" (expected "above" or "below")`);
+  }
+
+  validateSize(config.options.size);
+  validateLithophane(config.options.lithophane);
+  validateBlend(config.options.blend);
+
+  const colorChange = config.options.colorChange;
+  if (colorChange !== undefined) {
+    if (colorChange.command !== undefined && colorChange.command !== 'color-change' && colorChange.command !== 'pause') {
+      throw new Error(
+        `Invalid config: unknown colorChange command "${colorChange.command}" (expected "color-change" or "pause")`
+      );
+    }
+    for (const key of ['layerHeight', 'firstLayerHeight'] as const) {
+      const value = colorChange[key];
+      if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+        throw new Error(`Invalid config: colorChange.${key} must be a positive number`);
+      }
+    }
+  }
+
+  const colorMetric = config.options.colorMetric;
+  if (colorMetric !== undefined && !COLOR_METRICS.includes(colorMetric)) {
+    throw new Error(
+      `Invalid config: unknown colorMetric "${colorMetric}" (expected ${COLOR_METRICS.map((m) => `"${m}"`).join(', ')})`
+    );
+  }
+
+  const meshing = config.options.meshing;
+  if (meshing !== undefined && meshing !== 'independent' && meshing !== 'shared') {
+    throw new Error(`Invalid config: unknown meshing mode "${meshing}" (expected "independent" or "shared")`);
+  }
+
+  const filaments = config.options.filaments;
+  if (filaments !== undefined && (!Array.isArray(filaments) || filaments.some((id) => typeof id !== 'string'))) {
+    throw new Error('Invalid config: "filaments" must be an array of catalog names or file paths');
+  }
+
+  const maxFilaments = config.options.maxFilaments;
+  if (maxFilaments !== undefined && !(Number.isInteger(maxFilaments) && maxFilaments > 0)) {
+    throw new Error('Invalid config: maxFilaments must be a positive whole number');
+  }
+
+  validateBackground(config.options.background);
+  validateQuantize(config.options.quantize);
+
+  if (config.options.antialias !== undefined && typeof config.options.antialias !== 'boolean') {
+    throw new Error('Invalid config: antialias must be true or false');
+  }
+
+  const outputProfile = config.options.outputProfile;
+  if (outputProfile !== undefined && !OUTPUT_PROFILES.includes(outputProfile)) {
+    throw new Error(
+      `Invalid config: unknown outputProfile "${outputProfile}" (expected ${OUTPUT_PROFILES.join(', ')})`
+    );
+  }
+
+  const formats = config.options.formats;
+  if (formats !== undefined) {
+    if (!Array.isArray(formats) || formats.length === 0) {
+      throw new Error(`Invalid config: formats must be a non-empty list of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    for (const format of formats) {
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new Error(`Invalid config: unknown format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+      }
+    }
+  }
+
+  validatePrinter(config.options.printer);
+  validateTiling(config.options.tiling);
+  if (config.options.tiling === undefined) {
+    validateSizeFitsPrinter(config.options.size, config.options.printer);
+  }
+
+  const amsSlots = config.options.amsSlots;
+  if (amsSlots !== undefined) {
+    if (typeof amsSlots !== 'object' || amsSlots === null || Array.isArray(amsSlots)) {
+      throw new Error('Invalid config: amsSlots must map filament names to slot numbers');
+    }
+    const used = new Map<number, string>();
+    for (const [name, slot] of Object.entries(amsSlots)) {
+      if (!Number.isInteger(slot) || slot < 1 || slot > MAX_AMS_SLOTS) {
+        throw new Error(`Invalid config: amsSlots "${name}" must be a slot from 1 to ${MAX_AMS_SLOTS}`);
+      }
+      if (used.has(slot)) {
+        throw new Error(`Invalid config: amsSlots "${name}" and "${used.get(slot)}" both use slot ${slot}`);
+      }
+      used.set(slot, name);
+    }
+  }
+
+  if (config.options.singleObject !== undefined && typeof config.options.singleObject !== 'boolean') {
+    throw new Error('Invalid config: singleObject must be true or false');
+  }
+
+  if (config.options.keepTemp !== undefined && typeof config.options.keepTemp !== 'boolean') {
+    throw new Error('Invalid config: keepTemp must be true or false');
+  }
+
+  const metadata = config.options.metadata;
+  if (metadata !== undefined) {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      throw new Error('Invalid config: metadata must be an object');
+    }
+    for (const key of ['title', 'designer', 'license', 'description', 'copyright'] as const) {
+      if (metadata[key] !== undefined && typeof metadata[key] !== 'string') {
+        throw new Error(`Invalid config: metadata.${key} must be a string`);
+      }
+    }
+  }
+
+  if (config.options.deterministic !== undefined && typeof config.options.deterministic !== 'boolean') {
+    throw new Error('Invalid config: deterministic must be true or false');
+  }
+  const timestamp = config.options.timestamp;
+  if (timestamp !== undefined && (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp)))) {
+    throw new Error('Invalid config: timestamp must be an ISO 8601 date like "2024-01-01T00:00:00Z"');
+  }
+
+  const cleanup = config.options.cleanup;
+  if (cleanup !== undefined) {
+    if (cleanup.nozzleDiameter !== undefined && !(typeof cleanup.nozzleDiameter === 'number' && cleanup.nozzleDiameter > 0)) {
+      throw new Error('Invalid config: cleanup.nozzleDiameter must be a positive number');
+    }
+    if (cleanup.minFeatureArea !== undefined && !(typeof cleanup.minFeatureArea === 'number' && cleanup.minFeatureArea >= 0)) {
+      throw new Error('Invalid config: cleanup.minFeatureArea must be zero or a positive number');
+    }
+  }
+
   return config;
 }
 
+function validateLithophane(lithophane: LithophaneConfig | undefined): void {
+  if (lithophane === undefined) return;
+
+  if (typeof lithophane.color !== 'string') {
+    throw new Error('Invalid config: lithophane.color must be a filament color name');
+  }
+  for (const key of ['minThickness', 'maxThickness'] as const) {
+    const value = lithophane[key];
+    if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+      throw new Error(`Invalid config: lithophane.${key} must be a positive number`);
+    }
+  }
+  const minThickness = lithophane.minThickness ?? DEFAULT_LITHOPHANE_MIN_THICKNESS;
+  const maxThickness = lithophane.maxThickness ?? DEFAULT_LITHOPHANE_MAX_THICKNESS;
+  if (minThickness >= maxThickness) {
+    throw new Error('Invalid config: lithophane.minThickness must be less than lithophane.maxThickness');
+  }
+  if (lithophane.invert !== undefined && typeof lithophane.invert !== 'boolean') {
+    throw new Error('Invalid config: lithophane.invert must be true or false');
+  }
+
+  const frame = lithophane.frame;
+  if (frame !== undefined) {
+    if (!(typeof frame.width === 'number' && frame.width > 0)) {
+      throw new Error('Invalid config: lithophane.frame.width must be a positive number');
+    }
+    if (frame.thickness !== undefined && !(typeof frame.thickness === 'number' && frame.thickness > 0)) {
+      throw new Error('Invalid config: lithophane.frame.thickness must be a positive number');
+    }
+  }
+
+  const shape = lithophane.shape;
+  if (shape !== undefined && shape !== 'flat' && shape !== 'curved') {
+    throw new Error(`Invalid config: unknown lithophane shape "${shape}" (expected "flat" or "curved")`);
+  }
+  const angle = lithophane.angle;
+  if (angle !== undefined && !(typeof angle === 'number' && angle > 0 && angle < 360)) {
+    throw new Error('Invalid config: lithophane.angle must be between 0 and 360 degrees');
+  }
+}
+
+function validateBlend(blend: BlendConfig | undefined): void {
+  if (blend === undefined) return;
+
+  if (blend.layerHeight !== undefined && !(typeof blend.layerHeight === 'number' && blend.layerHeight > 0)) {
+    throw new Error('Invalid config: blend.layerHeight must be a positive number');
+  }
+  if (!Array.isArray(blend.filaments) || blend.filaments.length < 2) {
+    throw new Error('Invalid config: blend.filaments must list at least two filaments, bottom first');
+  }
+  blend.filaments.forEach((filament, index) => {
+    if (!filament || typeof filament.color !== 'string') {
+      throw new Error(`Invalid config: blend.filaments[${index}].color must be a filament color name`);
+    }
+    for (const key of ['td', 'thickness'] as const) {
+      const value = filament[key];
+      if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+        throw new Error(`Invalid config: blend.filaments[${index}].${key} must be a positive number`);
+      }
+    }
+  });
+}
+
+function validateBackground(background: BackgroundConfig | undefined): void {
+  if (background === undefined) return;
+
+  switch (background.strategy) {
+    case 'alpha':
+      if (
+        background.threshold !== undefined &&
+        !(typeof background.threshold === 'number' && background.threshold >= 0 && background.threshold <= 255)
+      ) {
+        throw new Error('Invalid config: background.threshold must be a number from 0 to 255');
+      }
+      break;
+    case 'color':
+      if (typeof background.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(background.color)) {
+        throw new Error('Invalid config: background.color must be a hex color like "#ffffff"');
+      }
+      if (background.tolerance !== undefined && !(typeof background.tolerance === 'number' && background.tolerance >= 0)) {
+        throw new Error('Invalid config: background.tolerance must be zero or a positive number');
+      }
+      break;
+    case 'flood':
+    case 'none':
+      break;
+    default:
+      throw new Error(
+        `Invalid config: unknown background strategy "${(background as { strategy?: unknown }).strategy}" (expected "alpha", "flood", "color" or "none")`
+      );
+  }
+}
+
+function validateQuantize(quantize: QuantizeConfig | undefined): void {
+  if (quantize === undefined) return;
+
+  if (quantize.algorithm !== undefined && !QUANTIZE_ALGORITHMS.includes(quantize.algorithm)) {
+    throw new Error(
+      `Invalid config: unknown quantize algorithm "${quantize.algorithm}" (expected ${QUANTIZE_ALGORITHMS.map((a) => `"${a}"`).join(', ')})`
+    );
+  }
+
+  const colors = quantize.colors;
+  if (colors !== undefined && !(Number.isInteger(colors) && colors > 0 && colors <= MAX_QUANTIZE_COLORS)) {
+    throw new Error(`Invalid config: quantize.colors must be a whole number from 1 to ${MAX_QUANTIZE_COLORS}`);
+  }
+
+  const palette = quantize.palette;
+  if (palette !== undefined) {
+    if (!Array.isArray(palette) || palette.length === 0 || palette.length > MAX_QUANTIZE_COLORS) {
+      throw new Error(
+        `Invalid config: quantize.palette must be an array of 1 to ${MAX_QUANTIZE_COLORS} hex colors`
+      );
+    }
+    for (const color of palette) {
+      if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+        throw new Error(`Invalid config: quantize.palette entry "${color}" is not a hex color like "#ffffff"`);
+      }
+    }
+  }
+}
+
+function validateSize(size: SizeConfig | undefined): void {
+  if (size === undefined) return;
+
+  for (const key of ['width', 'height', 'longestEdge', 'mmPerPixel'] as const) {
+    const value = size[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`Invalid config: size.${key} must be a positive number`);
+    }
+  }
+
+  const margin = size.margin ?? 0;
+  if (typeof margin !== 'number' || margin < 0) {
+    throw new Error('Invalid config: size.margin must be zero or a positive number');
+  }
+
+  const targets = [size.width, size.height, size.longestEdge].filter((value) => value !== undefined);
+  if (size.mmPerPixel !== undefined && targets.length > 0) {
+    throw new Error('Invalid config: size.mmPerPixel cannot be combined with a target width, height or longestEdge');
+  }
+  if (size.longestEdge !== undefined && (size.width !== undefined || size.height !== undefined)) {
+    throw new Error('Invalid config: size.longestEdge cannot be combined with size.width or size.height');
+  }
+  for (const target of targets) {
+    if (target! <= 2 * margin) {
+      throw new Error(`Invalid config: size target ${target}mm leaves no room inside a ${margin}mm margin`);
+    }
+  }
+}
+
+function validatePrinter(printer: string | CustomPrinterConfig | undefined): void {
+  if (printer === undefined) return;
+
+  if (typeof printer === 'string') {
+    if (!isPrinterProfile(printer)) {
+      throw new Error(
+        `Invalid config: unknown printer "${printer}" (expected ${Object.keys(PRINTER_PROFILES).join(', ')} or a custom size)`
+      );
+    }
+    return;
+  }
+
+  if (typeof printer !== 'object' || printer === null || Array.isArray(printer)) {
+    throw new Error('Invalid config: printer must be a printer id or { "width": ..., "depth": ... }');
+  }
+  for (const key of ['width', 'depth'] as const) {
+    if (typeof printer[key] !== 'number' || !(printer[key] > 0)) {
+      throw new Error(`Invalid config: printer.${key} must be a positive number`);
+    }
+  }
+  if (printer.height !== undefined && (typeof printer.height !== 'number' || !(printer.height > 0))) {
+    throw new Error('Invalid config: printer.height must be a positive number');
+  }
+  if (printer.name !== undefined && typeof printer.name !== 'string') {
+    throw new Error('Invalid config: printer.name must be a string');
+  }
+}
+
+function validateTiling(tiling: TilingConfig | undefined): void {
+  if (tiling === undefined) return;
+
+  if (typeof tiling !== 'object' || tiling === null || Array.isArray(tiling)) {
+    throw new Error('Invalid config: tiling must be an object, e.g. {} or { "keys": "pegs" }');
+  }
+  if (tiling.keys !== undefined && !TILE_KEY_STYLES.includes(tiling.keys)) {
+    throw new Error(`Invalid config: unknown tiling.keys "${tiling.keys}" (expected ${TILE_KEY_STYLES.join(', ')})`);
+  }
+  for (const key of ['keySize', 'keySpacing'] as const) {
+    const value = tiling[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`Invalid config: tiling.${key} must be a positive number`);
+    }
+  }
+  if (tiling.clearance !== undefined && (typeof tiling.clearance !== 'number' || tiling.clearance < 0)) {
+    throw new Error('Invalid config: tiling.clearance must be zero or a positive number');
+  }
+}
+
+// A target size larger than the plate can never fit, whatever the image
+function validateSizeFitsPrinter(size: SizeConfig | undefined, printer: string | CustomPrinterConfig | undefined): void {
+  if (size === undefined) return;
+
+  const profile = resolvePrinter(printer);
+  const plate = `${profile.plateWidth} x ${profile.plateDepth}mm plate of the ${profile.name}`;
+  if (size.width !== undefined && size.width > profile.plateWidth) {
+    throw new Error(`Invalid config: size.width ${size.width}mm does not fit the ${plate}`);
+  }
+  if (size.height !== undefined && size.height > profile.plateDepth) {
+    throw new Error(`Invalid config: size.height ${size.height}mm does not fit the ${plate}`);
+  }
+  if (size.longestEdge !== undefined && size.longestEdge > Math.max(profile.plateWidth, profile.plateDepth)) {
+    throw new Error(`Invalid config: size.longestEdge ${size.longestEdge}mm does not fit the ${plate}`);
+  }
+}
+
+// Apply overrides, e.g. from the command line, on top of the options of a config. Nested
+// option objects are merged key by key, so overriding one key keeps the others. A background
+// with another strategy or a size with another target replaces the configured one.
+export function mergeOptions(options: ConfigOptions, overrides: ConfigOptions): ConfigOptions {
+  const merged: ConfigOptions = { ...options, ...overrides };
+
+  if (options.quantize && overrides.quantize) merged.quantize = { ...options.quantize, ...overrides.quantize };
+  if (options.cleanup && overrides.cleanup) merged.cleanup = { ...options.cleanup, ...overrides.cleanup };
+  if (options.colorChange && overrides.colorChange) {
+    merged.colorChange = { ...options.colorChange, ...overrides.colorChange };
+  }
+  if (options.tiling && overrides.tiling) merged.tiling = { ...options.tiling, ...overrides.tiling };
+  if (options.size && overrides.size) {
+    // A new target size replaces the configured one, the margin carries over
+    const retargeted = (['width', 'height', 'longestEdge', 'mmPerPixel'] as const).some(
+      (key) => overrides.size![key] !== undefined
+    );
+    merged.size = { ...(retargeted ? { margin: options.size.margin } : options.size), ...overrides.size };
+  }
+  if (options.metadata && overrides.metadata) merged.metadata = { ...options.metadata, ...overrides.metadata };
+  if (options.background && overrides.background?.strategy === options.background.strategy) {
+    merged.background = { ...options.background, ...overrides.background } as BackgroundConfig;
+  }
+
+  return merged;
+}
+
 export function configExists(filepath: string): boolean {
   return fs.existsSync(filepath);
 }
@@ -0,0 +1,50 @@
+import { SizeConfig } from './config';
+
+// Longest edge of the design when no size is configured
+export const DEFAULT_LONGEST_EDGE_MM = 100;
+
+export interface OutputDimensions {
+  scale: number; // mm per pixel in XY
+  widthMm: number; // size of the image itself
+  heightMm: number;
+  margin: number; // empty space on each side
+  totalWidthMm: number; // image plus margins
+  totalHeightMm: number;
+}
+
+// Work out the physical size of the design from the size options.
+// Target sizes include the margins; the image is scaled to fit inside what remains.
+export function computeDimensions(
+  size: SizeConfig | undefined,
+  widthPx: number,
+  heightPx: number
+): OutputDimensions {
+  const margin = size?.margin ?? 0;
+  const available = (target: number) => target - 2 * margin;
+
+  let scale: number;
+  if (size?.mmPerPixel !== undefined) {
+    scale = size.mmPerPixel;
+  } else if (size?.width !== undefined || size?.height !== undefined) {
+    // Fit inside whichever targets are given
+    const scales: number[] = [];
+    if (size.width !== undefined) scales.push(available(size.width) / widthPx);
+    if (size.height !== undefined) scales.push(available(size.height) / heightPx);
+    scale = Math.min(...scales);
+  } else {
+    const longestEdge = size?.longestEdge ?? DEFAULT_LONGEST_EDGE_MM;
+    scale = available(longestEdge) / Math.max(widthPx, heightPx);
+  }
+
+  const widthMm = widthPx * scale;
+  const heightMm = heightPx * scale;
+
+  return {
+    scale,
+    widthMm,
+    heightMm,
+    margin,
+    totalWidthMm: widthMm + 2 * margin,
+    totalHeightMm: heightMm + 2 * margin,
+  };
+}
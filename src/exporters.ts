@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ColoredObject, MeshObject } from './3mf';
+import { escapeXml, objectName } from './3mf-package';
+import { Point2D, traceRegions } from './mesher';
+
+// Exports besides the 3MF, for tools that can't read it: one binary STL per color, an OBJ
+// with an MTL of filament colors, SVG outlines per color and an OpenSCAD file extruding
+// outlines. Every exporter writes next to basePath (the output path without extension) and
+// returns the files it wrote.
+
+// Physical layout of the design: meshes span [0, widthMm] x [0, heightMm] with y up,
+// and one image pixel is scale mm wide
+export interface ExportLayout {
+  widthMm: number;
+  heightMm: number;
+  scale: number;
+}
+
+// Layers further apart than this are different heights
+const Z_EPSILON = 1e-6;
+
+// File-name friendly form of a label, e.g. "bambu-lab-pla-basic-red"
+function slug(label: string): string {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'color'
+  );
+}
+
+// Objects are numbered so two objects of the same filament get different files
+function exportName(object: ColoredObject, index: number): string {
+  return `${index + 1}-${slug(objectName(object, index))}`;
+}
+
+function objectColor(object: ColoredObject): string {
+  return (object.filament?.hex ?? object.color).toUpperCase();
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function binaryStl(mesh: MeshObject, name: string): Buffer {
+  const buffer = Buffer.alloc(84 + mesh.triangles.length * 50);
+  // The header must not start with "solid", or readers take the file for ASCII STL
+  buffer.write(`img-to-3mf ${name}`.slice(0, 80), 0, 'ascii');
+  buffer.writeUInt32LE(mesh.triangles.length, 80);
+
+  let offset = 84;
+  for (const t of mesh.triangles) {
+    const a = mesh.vertices[t.v1];
+    const b = mesh.vertices[t.v2];
+    const c = mesh.vertices[t.v3];
+    const nx = (b.y - a.y) * (c.z - a.z) - (b.z - a.z) * (c.y - a.y);
+    const ny = (b.z - a.z) * (c.x - a.x) - (b.x - a.x) * (c.z - a.z);
+    const nz = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    const length = Math.hypot(nx, ny, nz) || 1;
+
+    for (const value of [nx / length, ny / length, nz / length, a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z]) {
+      buffer.writeFloatLE(value, offset);
+      offset += 4;
+    }
+    offset += 2; // attribute byte count, unused
+  }
+
+  return buffer;
+}
+
+export function writeStlFiles(objects: ColoredObject[], basePath: string): string[] {
+  return objects.map((object, i) => {
+    const filepath = `${basePath}-${exportName(object, i)}.stl`;
+    fs.writeFileSync(filepath, binaryStl(object.mesh, objectName(object, i)));
+    return filepath;
+  });
+}
+
+// One OBJ with an object per color, and an MTL with a material per filament
+export function writeObj(objects: ColoredObject[], basePath: string): string[] {
+  const objPath = `${basePath}.obj`;
+  const mtlPath = `${basePath}.mtl`;
+
+  const materials = new Map<string, string>();
+  const obj: string[] = ['# Generated by img-to-3mf', `mtllib ${path.basename(mtlPath)}`];
+  let vertexBase = 1; // OBJ indices are 1-based and global
+  objects.forEach((object, i) => {
+    const material = slug(objectName(object, i));
+    materials.set(material, objectColor(object));
+
+    obj.push(`o ${exportName(object, i)}`, `usemtl ${material}`);
+    for (const v of object.mesh.vertices) {
+      obj.push(`v ${v.x} ${v.y} ${v.z}`);
+    }
+    for (const t of object.mesh.triangles) {
+      obj.push(`f ${t.v1 + vertexBase} ${t.v2 + vertexBase} ${t.v3 + vertexBase}`);
+    }
+    vertexBase += object.mesh.vertices.length;
+  });
+
+  const mtl: string[] = ['# Generated by img-to-3mf'];
+  for (const [material, hex] of materials) {
+    const rgb = [1, 3, 5].map((start) => formatNumber(parseInt(hex.slice(start, start + 2), 16) / 255));
+    mtl.push('', `newmtl ${material}`, `Kd ${rgb.join(' ')}`, 'Ka 0 0 0', 'd 1', 'illum 1');
+  }
+
+  fs.writeFileSync(objPath, obj.join('\n') + '\n', 'utf-8');
+  fs.writeFileSync(mtlPath, mtl.join('\n') + '\n', 'utf-8');
+  return [objPath, mtlPath];
+}
+
+// Outline of everything a mesh covers seen from above: the edges of its upward faces that
+// no other upward face shares. Outer rings run counter-clockwise and holes clockwise.
+function footprintOutline(mesh: MeshObject): Point2D[][] {
+  const key = (x: number, y: number) => `${Math.round(x * 1e5)},${Math.round(y * 1e5)}`;
+  const points = new Map<string, Point2D>();
+  const edges = new Map<string, Set<string>>(); // start point -> end points
+
+  for (const t of mesh.triangles) {
+    const corners = [mesh.vertices[t.v1], mesh.vertices[t.v2], mesh.vertices[t.v3]];
+    const [a, b, c] = corners;
+    const nz = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    if (nz <= Z_EPSILON) continue;
+
+    for (let k = 0; k < 3; k++) {
+      const from = corners[k];
+      const to = corners[(k + 1) % 3];
+      const fromKey = key(from.x, from.y);
+      const toKey = key(to.x, to.y);
+      if (fromKey === toKey) continue;
+      points.set(fromKey, { x: from.x, y: from.y });
+      points.set(toKey, { x: to.x, y: to.y });
+
+      // An edge shared with a neighboring face runs the other way there and cancels out
+      const reverse = edges.get(toKey);
+      if (reverse?.has(fromKey)) {
+        reverse.delete(fromKey);
+      } else {
+        if (!edges.has(fromKey)) edges.set(fromKey, new Set());
+        edges.get(fromKey)!.add(toKey);
+      }
+    }
+  }
+
+  const loops: Point2D[][] = [];
+  for (const [start, ends] of edges) {
+    while (ends.size > 0) {
+      const loop: Point2D[] = [points.get(start)!];
+      let current = start;
+      for (;;) {
+        const next = edges.get(current);
+        if (!next || next.size === 0) break;
+        const to: string = next.values().next().value!;
+        next.delete(to);
+        if (to === start) break;
+        loop.push(points.get(to)!);
+        current = to;
+      }
+      if (loop.length >= 3) loops.push(loop);
+    }
+  }
+
+  return loops;
+}
+
+export function writeSvgFiles(objects: ColoredObject[], basePath: string, layout: ExportLayout): string[] {
+  const width = formatNumber(layout.widthMm);
+  const height = formatNumber(layout.heightMm);
+
+  return objects.map((object, i) => {
+    // SVG y points down
+    const d = footprintOutline(object.mesh)
+      .map(
+        (loop) =>
+          'M ' + loop.map((p) => `${formatNumber(p.x)} ${formatNumber(layout.heightMm - p.y)}`).join(' L ') + ' Z'
+      )
+      .join(' ');
+
+    const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">
+ <title>${escapeXml(objectName(object, i))}</title>
+ <path d="${d}" fill="${objectColor(object)}" fill-rule="evenodd" stroke="none"/>
+</svg>
+`;
+    const filepath = `${basePath}-${exportName(object, i)}.svg`;
+    fs.writeFileSync(filepath, svg, 'utf-8');
+    return filepath;
+  });
+}
+
+// Part of a mesh between two heights, the same shape all the way up; inside is per pixel
+interface MeshLayer {
+  zBottom: number;
+  zTop: number;
+  inside: Uint8Array;
+}
+
+// Cut a mesh made of flat layers at every distinct height and rasterize each layer on the
+// image's pixel grid. A pixel is inside a layer if an odd number of faces lies above the
+// middle of the layer there. Returns undefined if the mesh has sloped faces (a lithophane),
+// which no stack of flat layers can rebuild.
+function meshLayers(mesh: MeshObject, layout: ExportLayout, width: number, height: number): MeshLayer[] | undefined {
+  for (const t of mesh.triangles) {
+    const [a, b, c] = [mesh.vertices[t.v1], mesh.vertices[t.v2], mesh.vertices[t.v3]];
+    const flat = Math.abs(a.z - b.z) <= Z_EPSILON && Math.abs(a.z - c.z) <= Z_EPSILON;
+    const wall = Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) <= Z_EPSILON;
+    if (!flat && !wall) return undefined;
+  }
+
+  const heights: number[] = [];
+  for (const z of Array.from(new Set(mesh.vertices.map((v) => v.z))).sort((a, b) => a - b)) {
+    if (heights.length === 0 || z - heights[heights.length - 1] > Z_EPSILON) heights.push(z);
+  }
+
+  const layers: MeshLayer[] = [];
+  for (let k = 0; k + 1 < heights.length; k++) {
+    layers.push({ zBottom: heights[k], zTop: heights[k + 1], inside: new Uint8Array(width * height) });
+  }
+
+  // Work in pixel units, snapped to 1/1024 so faces sharing an edge agree exactly on it
+  const snap = (value: number) => Math.round((value / layout.scale) * 1024) / 1024;
+  for (const t of mesh.triangles) {
+    let [a, b, c] = [mesh.vertices[t.v1], mesh.vertices[t.v2], mesh.vertices[t.v3]].map((v) => ({
+      u: snap(v.x),
+      v: snap(v.y),
+      z: v.z,
+    }));
+    let area = (b.u - a.u) * (c.v - a.v) - (b.v - a.v) * (c.u - a.u);
+    if (area === 0) continue; // walls cover no pixels from above
+    if (area < 0) {
+      [b, c] = [c, b];
+      area = -area;
+    }
+
+    // Pixel centers on an edge belong to the face to its left or below it (top-left rule)
+    const edges = [
+      [b, c],
+      [c, a],
+      [a, b],
+    ].map(([p, q]) => ({ p, q, tieInside: q.v - p.v < 0 || (q.v === p.v && q.u - p.u < 0) }));
+
+    const minCol = Math.max(0, Math.floor(Math.min(a.u, b.u, c.u) - 0.5));
+    const maxCol = Math.min(width - 1, Math.ceil(Math.max(a.u, b.u, c.u) - 0.5));
+    const minV = Math.min(a.v, b.v, c.v);
+    const maxV = Math.max(a.v, b.v, c.v);
+    const minRow = Math.max(0, Math.floor(height - maxV - 0.5));
+    const maxRow = Math.min(height - 1, Math.ceil(height - minV - 0.5));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const pv = height - row - 0.5;
+      for (let col = minCol; col <= maxCol; col++) {
+        const pu = col + 0.5;
+        const weights: number[] = [];
+        let covered = true;
+        for (const { p, q, tieInside } of edges) {
+          const w = (q.u - p.u) * (pv - p.v) - (q.v - p.v) * (pu - p.u);
+          if (w < 0 || (w === 0 && !tieInside)) {
+            covered = false;
+            break;
+          }
+          weights.push(w);
+        }
+        if (!covered) continue;
+
+        // Weights are for the corners opposite each edge: a, b, c
+        const z = (weights[0] * a.z + weights[1] * b.z + weights[2] * c.z) / area;
+        for (const layer of layers) {
+          if (z > (layer.zBottom + layer.zTop) / 2) layer.inside[row * width + col] ^= 1;
+        }
+      }
+    }
+  }
+
+  // Consecutive layers of the same shape are one layer
+  const merged: MeshLayer[] = [];
+  for (const layer of layers) {
+    if (!layer.inside.some((value) => value === 1)) continue;
+    const previous = merged[merged.length - 1];
+    if (previous && previous.zTop === layer.zBottom && Buffer.compare(previous.inside, layer.inside) === 0) {
+      previous.zTop = layer.zTop;
+    } else {
+      merged.push(layer);
+    }
+  }
+  return merged;
+}
+
+// OpenSCAD polygon() of the pixels inside a layer, traced like the meshes are, in pixels
+function layerPolygons(layer: MeshLayer, width: number, height: number, indent: string): string {
+  const labels = Int32Array.from(layer.inside, (value) => (value ? 0 : -1));
+  return traceRegions({ width, height, labels })
+    .map((polygon) => {
+      const rings = [polygon.outer, ...polygon.holes];
+      const points = rings.flat().map((p) => `[${p.x}, ${p.y}]`);
+      let next = 0;
+      const paths = rings.map((ring) => `[${ring.map(() => next++).join(', ')}]`);
+      return `${indent}polygon(points = [${points.join(', ')}], paths = [${paths.join(', ')}]);\n`;
+    })
+    .join('');
+}
+
+// OpenSCAD file that rebuilds the design from the outlines of its layers
+export function writeScad(objects: ColoredObject[], basePath: string, layout: ExportLayout): string[] {
+  const scadPath = `${basePath}.scad`;
+  const width = Math.round(layout.widthMm / layout.scale);
+  const height = Math.round(layout.heightMm / layout.scale);
+
+  let scad = `// OpenSCAD version of ${path.basename(basePath)}, generated by img-to-3mf
+// Every layer is the outline of its pixels, extruded between two heights.
+
+pixel = ${layout.scale}; // mm per pixel
+
+// Outlines given in pixels, extruded from z_bottom to z_top
+module layer(z_bottom, z_top) {
+  translate([0, 0, z_bottom])
+    linear_extrude(height = z_top - z_bottom)
+      scale([pixel, pixel])
+        children();
+}
+`;
+
+  for (let i = 0; i < objects.length; i++) {
+    const object = objects[i];
+    const layers = meshLayers(object.mesh, layout, width, height);
+    if (!layers) {
+      console.warn(`Warning: ${objectName(object, i)} is not made of flat layers; it is left out of the OpenSCAD export`);
+      continue;
+    }
+
+    scad += `
+// ${objectName(object, i).replace(/\n/g, ' ')}
+color("${objectColor(object)}") {
+`;
+    for (const layer of layers) {
+      scad += `  layer(${formatNumber(layer.zBottom)}, ${formatNumber(layer.zTop)}) {
+${layerPolygons(layer, width, height, '    ')}  }
+`;
+    }
+    scad += `}
+`;
+  }
+
+  fs.writeFileSync(scadPath, scad, 'utf-8');
+  return [scadPath];
+}
@@ -0,0 +1,262 @@
+import { CleanupConfig } from './config';
+import { NO_COLOR, ProcessedImage } from './image-processor';
+
+export const DEFAULT_NOZZLE_DIAMETER = 0.4;
+
+const INFINITY = 1e20;
+
+// Squared Euclidean distance from every pixel to the nearest seed pixel
+// (Felzenszwalb & Huttenlocher, one pass over columns and one over rows)
+function squaredDistanceTransform(seeds: Uint8Array, width: number, height: number): Float64Array {
+  const distances = new Float64Array(width * height);
+  for (let i = 0; i < width * height; i++) distances[i] = seeds[i] ? 0 : INFINITY;
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  const transform1d = (n: number) => {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -INFINITY;
+    z[1] = INFINITY;
+    for (let q = 1; q < n; q++) {
+      let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      while (s <= z[k]) {
+        k--;
+        s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      }
+      k++;
+      v[k] = q;
+      z[k] = s;
+      z[k + 1] = INFINITY;
+    }
+    k = 0;
+    for (let q = 0; q < n; q++) {
+      while (z[k + 1] < q) k++;
+      d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = distances[y * width + x];
+    transform1d(height);
+    for (let y = 0; y < height; y++) distances[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = distances[y * width + x];
+    transform1d(width);
+    for (let x = 0; x < width; x++) distances[y * width + x] = d[x];
+  }
+
+  return distances;
+}
+
+// Pixels of `inside` that survive a morphological opening with a disc of the given radius.
+// The grid is padded by one pixel of `outsideValue` so the image border acts like its surroundings.
+function openRegion(inside: Uint8Array, width: number, height: number, radius: number, outsideValue: number): Uint8Array {
+  const paddedWidth = width + 2;
+  const paddedHeight = height + 2;
+  const padded = new Uint8Array(paddedWidth * paddedHeight).fill(outsideValue);
+  for (let y = 0; y < height; y++) {
+    padded.set(inside.subarray(y * width, (y + 1) * width), (y + 1) * paddedWidth + 1);
+  }
+
+  // Erode: keep pixels farther than the radius from anything outside the region
+  const outside = padded.map((value) => 1 - value);
+  const toOutside = squaredDistanceTransform(outside, paddedWidth, paddedHeight);
+  const eroded = toOutside.map((distance) => (distance > radius * radius ? 1 : 0));
+
+  // Dilate the eroded core back by the same radius
+  const toCore = squaredDistanceTransform(new Uint8Array(eroded), paddedWidth, paddedHeight);
+
+  const opened = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y + 1) * paddedWidth + x + 1;
+      opened[y * width + x] = padded[p] && toCore[p] <= radius * radius ? 1 : 0;
+    }
+  }
+  return opened;
+}
+
+// Relabel pixels marked -1 from their neighbors, growing inwards one ring at a time.
+// A pixel never takes back the label it was removed from.
+function fillFromNeighbors(labels: Int32Array, original: Int32Array, width: number, height: number): void {
+  let pending: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (labels[i] < 0) pending.push(i);
+  }
+
+  const votes = new Map<number, number>();
+  while (pending.length > 0) {
+    const assignments: [number, number][] = [];
+    const remaining: number[] = [];
+
+    for (const p of pending) {
+      const x = p % width;
+      votes.clear();
+      const vote = (n: number) => {
+        const label = labels[n];
+        if (label >= 0 && label !== original[p]) votes.set(label, (votes.get(label) || 0) + 1);
+      };
+      if (x > 0) vote(p - 1);
+      if (x < width - 1) vote(p + 1);
+      if (p >= width) vote(p - width);
+      if (p + width < width * height) vote(p + width);
+
+      let best = -1;
+      let bestVotes = 0;
+      for (const [label, count] of votes) {
+        if (count > bestVotes || (count === bestVotes && label < best)) {
+          best = label;
+          bestVotes = count;
+        }
+      }
+      if (best >= 0) assignments.push([p, best]);
+      else remaining.push(p);
+    }
+
+    // Nothing reachable any more: the leftovers keep their label
+    if (assignments.length === 0) {
+      for (const p of remaining) labels[p] = original[p];
+      break;
+    }
+    for (const [p, label] of assignments) labels[p] = label;
+    pending = remaining;
+  }
+}
+
+// Merge 4-connected regions smaller than minArea pixels into the neighbor they share the
+// longest border with. Background regions touching the image edge are never filled.
+function removeSmallRegions(labels: Int32Array, width: number, height: number, minArea: number, backgroundLabel: number): void {
+  const component = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  const regions: { pixels: number[]; label: number; touchesEdge: boolean }[] = [];
+
+  for (let start = 0; start < width * height; start++) {
+    if (component[start] >= 0) continue;
+
+    const id = regions.length;
+    const label = labels[start];
+    const pixels: number[] = [];
+    let touchesEdge = false;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    component[start] = id;
+
+    while (head < tail) {
+      const p = queue[head++];
+      pixels.push(p);
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesEdge = true;
+
+      const visit = (n: number) => {
+        if (component[n] < 0 && labels[n] === label) {
+          component[n] = id;
+          queue[tail++] = n;
+        }
+      };
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (y > 0) visit(p - width);
+      if (y < height - 1) visit(p + width);
+    }
+
+    regions.push({ pixels, label, touchesEdge });
+  }
+
+  // Smallest first, so specks merge before the regions around them are judged
+  const small = regions
+    .filter((region) => region.pixels.length < minArea && !(region.label === backgroundLabel && region.touchesEdge))
+    .sort((a, b) => a.pixels.length - b.pixels.length);
+
+  const border = new Map<number, number>();
+  for (const region of small) {
+    const label = labels[region.pixels[0]];
+    border.clear();
+    for (const p of region.pixels) {
+      const x = p % width;
+      const count = (n: number) => {
+        if (labels[n] !== label) border.set(labels[n], (border.get(labels[n]) || 0) + 1);
+      };
+      if (x > 0) count(p - 1);
+      if (x < width - 1) count(p + 1);
+      if (p >= width) count(p - width);
+      if (p + width < width * height) count(p + width);
+    }
+
+    // Prefer a color over the background so details are kept rather than deleted
+    let best = -1;
+    let bestBorder = 0;
+    for (const [neighbor, length] of border) {
+      const better =
+        best < 0 ||
+        (best === backgroundLabel && neighbor !== backgroundLabel) ||
+        ((neighbor === backgroundLabel) === (best === backgroundLabel) && length > bestBorder);
+      if (better) {
+        best = neighbor;
+        bestBorder = length;
+      }
+    }
+    if (best < 0) continue;
+
+    for (const p of region.pixels) labels[p] = best;
+  }
+}
+
+// Remove features the nozzle can't print: thin lines and gaps (morphological opening of every
+// color and of the background, which closes thin gaps in the colors) plus islands and holes
+// below the minimum area. Removed pixels go to neighboring colors. Updates the processed image
+// in place and returns how many pixels each color gave away ('background' for background).
+export function cleanupFeatures(
+  processedImage: ProcessedImage,
+  cleanup: CleanupConfig,
+  scale: number
+): Map<string, number> {
+  const { width, height, modalColors, colorIndices, backgroundMask } = processedImage;
+  const nozzleDiameter = cleanup.nozzleDiameter ?? DEFAULT_NOZZLE_DIAMETER;
+  const minFeatureArea = cleanup.minFeatureArea ?? nozzleDiameter * nozzleDiameter;
+
+  // Labels: palette indices, then foreground without a color, then background
+  const uncoloredLabel = modalColors.length;
+  const backgroundLabel = modalColors.length + 1;
+  const original = new Int32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    original[i] = backgroundMask[i] ? backgroundLabel : colorIndices[i] === NO_COLOR ? uncoloredLabel : colorIndices[i];
+  }
+
+  // Opening with a disc as wide as the nozzle
+  const radius = nozzleDiameter / scale / 2;
+  const labels = original.slice();
+  if (radius >= 1) {
+    for (let label = 0; label <= backgroundLabel; label++) {
+      const inside = original.map((value) => (value === label ? 1 : 0));
+      const opened = openRegion(new Uint8Array(inside), width, height, radius, label === backgroundLabel ? 1 : 0);
+      for (let i = 0; i < width * height; i++) {
+        if (inside[i] && !opened[i]) labels[i] = -1;
+      }
+    }
+    fillFromNeighbors(labels, original, width, height);
+  }
+
+  removeSmallRegions(labels, width, height, minFeatureArea / (scale * scale), backgroundLabel);
+
+  const reassigned = new Map<string, number>();
+  for (let i = 0; i < width * height; i++) {
+    if (labels[i] === original[i]) continue;
+
+    const name =
+      original[i] === backgroundLabel ? 'background' : original[i] === uncoloredLabel ? 'uncolored' : modalColors[original[i]];
+    reassigned.set(name, (reassigned.get(name) || 0) + 1);
+
+    backgroundMask[i] = labels[i] === backgroundLabel ? 1 : 0;
+    colorIndices[i] = labels[i] < uncoloredLabel ? labels[i] : NO_COLOR;
+  }
+
+  return reassigned;
+}
@@ -0,0 +1,131 @@
+import { FilamentColor, colorDistance, hexToRgb } from './colors';
+import { ColorMetric } from './color-science';
+import { FilamentCatalog } from './filaments';
+
+// Filament chosen for one source color of the image
+export interface FilamentAssignment {
+  hex: string;
+  filament: FilamentColor;
+  catalog: FilamentCatalog;
+  distance: number; // color difference between the source color and the filament
+}
+
+// Largest number of filament combinations searched exhaustively; bigger problems
+// fall back to swap-based local search
+const EXHAUSTIVE_LIMIT = 200000;
+
+function combinations(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+    if (result > Number.MAX_SAFE_INTEGER) return Infinity;
+  }
+  return result;
+}
+
+// Pick a filament for every source color. With maxFilaments, at most that many distinct
+// filaments are used, chosen to minimize the total color error weighted by pixel count
+// over all colors at once (rather than merging the closest pair repeatedly).
+export function assignFilaments(
+  colors: string[],
+  catalogs: FilamentCatalog[],
+  metric: ColorMetric,
+  maxFilaments?: number,
+  pixelCounts?: Map<string, number>
+): FilamentAssignment[] {
+  const candidates = catalogs.flatMap((catalog) => catalog.filaments.map((filament) => ({ filament, catalog })));
+  if (candidates.length === 0) {
+    throw new Error('No filaments available: the selected catalogs are empty');
+  }
+
+  const weights = colors.map((hex) => pixelCounts?.get(hex) ?? 1);
+  const distances = colors.map((hex) => {
+    const rgb = hexToRgb(hex);
+    return candidates.map((candidate) => colorDistance(rgb, candidate.filament.rgb, metric));
+  });
+
+  const nearestIndex = (row: number[], chosen: number[]) =>
+    chosen.reduce((best, j) => (row[j] < row[best] ? j : best), chosen[0]);
+
+  const allCandidates = candidates.map((_, j) => j);
+  let chosen = Array.from(new Set(distances.map((row) => nearestIndex(row, allCandidates))));
+
+  if (maxFilaments !== undefined && chosen.length > maxFilaments) {
+    chosen = chooseFilaments(distances, weights, candidates.length, maxFilaments);
+  }
+
+  return colors.map((hex, i) => {
+    const j = nearestIndex(distances[i], chosen);
+    return { hex, ...candidates[j], distance: distances[i][j] };
+  });
+}
+
+// Choose k candidate filaments minimizing sum over colors of weight * distance to the
+// closest chosen filament
+function chooseFilaments(distances: number[][], weights: number[], candidateCount: number, k: number): number[] {
+  const cost = (chosen: number[]) =>
+    distances.reduce((sum, row, i) => sum + weights[i] * Math.min(...chosen.map((j) => row[j])), 0);
+
+  if (combinations(candidateCount, k) <= EXHAUSTIVE_LIMIT) {
+    // Enumerate every combination, keeping the closest distance per color so far
+    let best: number[] = [];
+    let bestCost = Infinity;
+    const current: number[] = [];
+
+    const search = (start: number, closest: number[]) => {
+      if (current.length === k) {
+        const total = closest.reduce((sum, d, i) => sum + weights[i] * d, 0);
+        if (total < bestCost) {
+          bestCost = total;
+          best = current.slice();
+        }
+        return;
+      }
+      for (let j = start; j <= candidateCount - (k - current.length); j++) {
+        current.push(j);
+        search(j + 1, closest.map((d, i) => Math.min(d, distances[i][j])));
+        current.pop();
+      }
+    };
+    search(0, distances.map(() => Infinity));
+    return best;
+  }
+
+  // Greedy start, then swap chosen and unchosen filaments while the total error improves
+  const chosen: number[] = [];
+  while (chosen.length < k) {
+    let bestCandidate = -1;
+    let bestCost = Infinity;
+    for (let j = 0; j < candidateCount; j++) {
+      if (chosen.includes(j)) continue;
+      const total = cost([...chosen, j]);
+      if (total < bestCost) {
+        bestCost = total;
+        bestCandidate = j;
+      }
+    }
+    chosen.push(bestCandidate);
+  }
+
+  let currentCost = cost(chosen);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let slot = 0; slot < k; slot++) {
+      for (let j = 0; j < candidateCount; j++) {
+        if (chosen.includes(j)) continue;
+        const previous = chosen[slot];
+        chosen[slot] = j;
+        const total = cost(chosen);
+        if (total < currentCost - 1e-9) {
+          currentCost = total;
+          improved = true;
+        } else {
+          chosen[slot] = previous;
+        }
+      }
+    }
+  }
+
+  return chosen;
+}
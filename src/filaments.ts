@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { BAMBU_BASIC_COLORS, FilamentColor, colorDistance, hexToRgb } from './colors';
+import { ColorMetric } from './color-science';
+
+// A set of filaments the tool can suggest from
+export interface FilamentCatalog {
+  id: string; // bundled catalog id, or the file path as written in the config
+  filaments: FilamentColor[];
+}
+
+// Catalog used when the config does not select any
+export const DEFAULT_FILAMENT_CATALOG = 'bambu-pla-basic';
+
+function bambuCatalog(
+  id: string,
+  material: string,
+  type: string,
+  filamentId: string,
+  colors: [string, string][]
+): FilamentCatalog {
+  return {
+    id,
+    filaments: colors.map(([name, hex]) => ({
+      name,
+      hex,
+      rgb: hexToRgb(hex),
+      brand: 'Bambu Lab',
+      material,
+      type,
+      settingsId: `Bambu ${material}`,
+      filamentId,
+    })),
+  };
+}
+
+export const BUNDLED_CATALOGS: Record<string, FilamentCatalog> = {
+  'bambu-pla-basic': bambuCatalog(
+    'bambu-pla-basic',
+    'PLA Basic',
+    'PLA',
+    'GFA00',
+    BAMBU_BASIC_COLORS.map((color) => [color.name, color.hex])
+  ),
+  'bambu-pla-matte': bambuCatalog('bambu-pla-matte', 'PLA Matte', 'PLA', 'GFA01', [
+    ['ivory-white', '#FFFFFF'],
+    ['bone-white', '#CBC6B8'],
+    ['desert-tan', '#E8DBB7'],
+    ['latte-brown', '#D3B7A7'],
+    ['caramel', '#AE835B'],
+    ['terracotta', '#B15533'],
+    ['dark-brown', '#7D6556'],
+    ['dark-chocolate', '#4D3324'],
+    ['lemon-yellow', '#F7D959'],
+    ['mandarin-orange', '#F99963'],
+    ['sakura-pink', '#E8AFCF'],
+    ['lilac-purple', '#AE96D4'],
+    ['plum', '#950051'],
+    ['scarlet-red', '#DE4343'],
+    ['dark-red', '#BB3D43'],
+    ['apple-green', '#C2E189'],
+    ['grass-green', '#61C680'],
+    ['dark-green', '#68724D'],
+    ['ice-blue', '#A3D8E1'],
+    ['sky-blue', '#56B7E6'],
+    ['marine-blue', '#0078BF'],
+    ['dark-blue', '#042F56'],
+    ['ash-grey', '#9B9EA0'],
+    ['nardo-grey', '#757575'],
+    ['charcoal', '#000000'],
+  ]),
+  'bambu-petg-hf': bambuCatalog('bambu-petg-hf', 'PETG HF', 'PETG', 'GFG02', [
+    ['white', '#FFFFFF'],
+    ['cream', '#F9DFB9'],
+    ['yellow', '#FFD00B'],
+    ['orange', '#F75403'],
+    ['red', '#EB3A3A'],
+    ['peanut-brown', '#875718'],
+    ['lime-green', '#6EE53C'],
+    ['green', '#00AE42'],
+    ['forest-green', '#39541A'],
+    ['lake-blue', '#1F79E5'],
+    ['blue', '#002E96'],
+    ['gray', '#ADB1B2'],
+    ['dark-gray', '#515151'],
+    ['black', '#000000'],
+  ]),
+  'bambu-pla-silk': bambuCatalog('bambu-pla-silk', 'PLA Silk+', 'PLA', 'GFA06', [
+    ['white', '#FFFFFF'],
+    ['champagne', '#F3CFB2'],
+    ['gold', '#F4A925'],
+    ['rose-gold', '#BA9594'],
+    ['pink', '#F7ADA6'],
+    ['candy-red', '#D02727'],
+    ['mint', '#96DCB9'],
+    ['candy-green', '#018814'],
+    ['baby-blue', '#A8C6EE'],
+    ['blue', '#008BDA'],
+    ['purple', '#8671CB'],
+    ['silver', '#C8C8C8'],
+    ['titan-gray', '#5F6367'],
+  ]),
+};
+
+// User catalog file: either an array of filaments, or an object whose brand/material
+// apply to every entry of its "filaments" array
+interface CatalogFile {
+  brand?: string;
+  material?: string;
+  type?: string;
+  filaments: {
+    name: string;
+    hex: string;
+    brand?: string;
+    material?: string;
+    type?: string;
+    td?: number;
+  }[];
+}
+
+export function loadFilamentCatalog(id: string, baseDir: string): FilamentCatalog {
+  const bundled = BUNDLED_CATALOGS[id];
+  if (bundled) return bundled;
+
+  const filepath = path.resolve(baseDir, id);
+  if (!fs.existsSync(filepath)) {
+    throw new Error(
+      `Unknown filament catalog "${id}": not a bundled catalog (${Object.keys(BUNDLED_CATALOGS).join(', ')}) and no such file`
+    );
+  }
+
+  const parsed = parseJsonc(fs.readFileSync(filepath, 'utf-8'));
+  const file: CatalogFile = Array.isArray(parsed) ? { filaments: parsed } : parsed;
+  if (!file || !Array.isArray(file.filaments)) {
+    throw new Error(`Invalid filament catalog ${id}: expected an array of filaments or a "filaments" field`);
+  }
+
+  const filaments = file.filaments.map((entry, index): FilamentColor => {
+    if (typeof entry.name !== 'string' || !/^#?[0-9a-f]{6}$/i.test(entry.hex ?? '')) {
+      throw new Error(`Invalid filament catalog ${id}: entry ${index} needs a "name" and a "hex" color`);
+    }
+    if (entry.td !== undefined && !(typeof entry.td === 'number' && entry.td > 0)) {
+      throw new Error(`Invalid filament catalog ${id}: entry ${index} has an invalid "td"`);
+    }
+
+    const hex = entry.hex.startsWith('#') ? entry.hex : `#${entry.hex}`;
+    return {
+      name: entry.name,
+      hex,
+      rgb: hexToRgb(hex),
+      brand: entry.brand ?? file.brand,
+      material: entry.material ?? file.material,
+      type: entry.type ?? file.type,
+      td: entry.td,
+    };
+  });
+
+  return { id, filaments };
+}
+
+// Load every selected catalog; file paths are relative to baseDir (the config's directory)
+export function loadFilamentCatalogs(ids: string[] | undefined, baseDir: string): FilamentCatalog[] {
+  const selected = ids && ids.length > 0 ? ids : [DEFAULT_FILAMENT_CATALOG];
+  return selected.map((id) => loadFilamentCatalog(id, baseDir));
+}
+
+export function findNearestFilament(
+  rgb: { r: number; g: number; b: number },
+  catalogs: FilamentCatalog[],
+  metric: ColorMetric = 'rgb'
+): { filament: FilamentColor; catalog: FilamentCatalog; distance: number } {
+  let best: { filament: FilamentColor; catalog: FilamentCatalog; distance: number } | undefined;
+
+  for (const catalog of catalogs) {
+    for (const filament of catalog.filaments) {
+      const distance = colorDistance(rgb, filament.rgb, metric);
+      if (!best || distance < best.distance) {
+        best = { filament, catalog, distance };
+      }
+    }
+  }
+
+  if (!best) {
+    throw new Error('No filaments available: the selected catalogs are empty');
+  }
+  return best;
+}
+
+// Look up a filament by name, in the given catalog if specified, otherwise in the first
+// selected catalog that has it
+export function resolveFilament(
+  name: string,
+  catalogId: string | undefined,
+  catalogs: FilamentCatalog[]
+): FilamentColor | undefined {
+  const candidates = catalogId ? catalogs.filter((catalog) => catalog.id === catalogId) : catalogs;
+
+  for (const catalog of candidates) {
+    const match = catalog.filaments.find((filament) => filament.name.toLowerCase() === name.toLowerCase());
+    if (match) return match;
+  }
+
+  return undefined;
+}
+
+// Full human-readable identity, e.g. "Bambu Lab PLA Matte charcoal"
+export function filamentLabel(filament: FilamentColor): string {
+  return [filament.brand, filament.material, filament.name].filter(Boolean).join(' ');
+}
@@ -1,346 +1,853 @@
 import { Jimp } from 'jimp';
-import { intToRGBA, rgbaToInt } from '@jimp/utils';
-import { hexToRgb, rgbToHex, colorDistance, findNearestBambuColor } from './colors';
+import { hexToRgb, colorDistance, packRgb, packedToHex, unpackRgb } from './colors';
+import { ColorMetric, deltaE2000, deltaE76, LabColor, rgbToLab } from './color-science';
+import { BackgroundConfig, ConfigOptions } from './config';
+import { LabelGrid } from './mesher';
+import { quantizeColors } from './quantize';
 
 export interface ImageInfo {
   width: number;
   height: number;
-  colors: Map<string, number>; // hex color -> pixel count
+  colors: Map<string, number>; // hex color -> pixel count, transparent pixels excluded
+  transparentPixels: number; // pixels with alpha below DEFAULT_ALPHA_THRESHOLD
 }
 
+// Pixel buffers are row-major, index = y * width + x
 export interface ProcessedImage {
   width: number;
   height: number;
-  pixelColors: string[][]; // 2D array of hex colors
-  modalColors: string[]; // Top 16 modal colors
-  backgroundMask: boolean[][]; // True for transparent/background pixels
+  modalColors: string[]; // Quantized palette (16 colors by default), which colorIndices refer to
+  modalPixelCounts: Map<string, number>; // modal color -> number of pixels mapped to it
+  colorIndices: Uint8Array; // index into modalColors per pixel, NO_COLOR for background
+  backgroundMask: Uint8Array; // 1 for transparent/background pixels
 }
 
-const COLOR_SIMILARITY_THRESHOLD = 30; // RGB distance threshold for considering colors identical
+// Palette index of pixels without a modal color
+export const NO_COLOR = 255;
+
+// Hex color of a pixel, or '' for background
+export function pixelColorAt(processedImage: ProcessedImage, x: number, y: number): string {
+  const index = processedImage.colorIndices[y * processedImage.width + x];
+  return index === NO_COLOR ? '' : processedImage.modalColors[index];
+}
+
+export function isBackgroundAt(processedImage: ProcessedImage, x: number, y: number): boolean {
+  return processedImage.backgroundMask[y * processedImage.width + x] === 1;
+}
+
+// Distance threshold for considering colors identical, per metric
+// (30 in RGB units, roughly the same visual difference as the delta E values)
+const COLOR_SIMILARITY_THRESHOLDS: Record<ColorMetric, number> = {
+  rgb: 30,
+  lab: 10,
+  ciede2000: 6,
+};
+
+// Palette size when the config doesn't set one
+const DEFAULT_QUANTIZE_COLORS = 16;
+
+// Alpha below which a pixel counts as transparent
+export const DEFAULT_ALPHA_THRESHOLD = 128;
+
+// Image pixels as packed 0xRRGGBB values plus alpha
+interface PixelBuffer {
+  width: number;
+  height: number;
+  rgb: Uint32Array;
+  alpha: Uint8Array;
+}
+
+function readPixels(image: any): PixelBuffer {
+  const width = image.bitmap.width;
+  const height = image.bitmap.height;
+  const data = image.bitmap.data;
+  const rgb = new Uint32Array(width * height);
+  const alpha = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    rgb[i] = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+    alpha[i] = data[i * 4 + 3];
+  }
+
+  return { width, height, rgb, alpha };
+}
 
 export async function loadImage(filepath: string): Promise<any> {
   return await Jimp.read(filepath);
 }
 
 export async function analyzeImage(filepath: string): Promise<ImageInfo> {
-  const image = await loadImage(filepath);
-  const width = image.bitmap.width;
-  const height = image.bitmap.height;
+  const { width, height, rgb, alpha } = readPixels(await loadImage(filepath));
+  const packedCounts = new Map<number, number>();
+  let transparentPixels = 0;
+
+  for (let i = 0; i < width * height; i++) {
+    if (alpha[i] < DEFAULT_ALPHA_THRESHOLD) {
+      transparentPixels++;
+      continue;
+    }
+    packedCounts.set(rgb[i], (packedCounts.get(rgb[i]) || 0) + 1);
+  }
+
   const colorCounts = new Map<string, number>();
+  for (const [color, count] of packedCounts) {
+    colorCounts.set(packedToHex(color), count);
+  }
 
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const pixel = intToRGBA(image.getPixelColor(x, y));
-      const hex = rgbToHex(pixel.r, pixel.g, pixel.b);
-      colorCounts.set(hex, (colorCounts.get(hex) || 0) + 1);
+  return { width, height, colors: colorCounts, transparentPixels };
+}
+
+// Background strategy for a new config: transparency if the image has any, else flood fill
+export async function suggestBackground(filepath: string): Promise<BackgroundConfig> {
+  const info = await analyzeImage(filepath);
+  return info.transparentPixels > 0 ? { strategy: 'alpha' } : { strategy: 'flood' };
+}
+
+// Background mask for the strategies that look at each pixel on its own
+function pixelBackground(pixels: PixelBuffer, background: BackgroundConfig, metric: ColorMetric): Uint8Array {
+  const { width, height, rgb, alpha } = pixels;
+  const mask = new Uint8Array(width * height);
+
+  if (background.strategy === 'alpha') {
+    const threshold = background.threshold ?? DEFAULT_ALPHA_THRESHOLD;
+    for (let i = 0; i < width * height; i++) {
+      mask[i] = alpha[i] < threshold ? 1 : 0;
+    }
+  } else if (background.strategy === 'color') {
+    const target = hexToRgb(background.color);
+    const tolerance = background.tolerance ?? COLOR_SIMILARITY_THRESHOLDS[metric];
+    const matches = new Map<number, boolean>();
+    for (let i = 0; i < width * height; i++) {
+      let match = matches.get(rgb[i]);
+      if (match === undefined) {
+        match = colorDistance(unpackRgb(rgb[i]), target, metric) <= tolerance;
+        matches.set(rgb[i], match);
+      }
+      mask[i] = match ? 1 : 0;
+    }
+  }
+
+  return mask;
+}
+
+// Images with more colors than there are buckets (photos, with hundreds of thousands) have
+// them gathered into buckets of 8 values per channel (5 bits) before clustering, far closer
+// together than any similarity threshold. Logos and pixel art are clustered color by color.
+const BUCKET_BITS = 5;
+const BUCKET_COUNT = 1 << (3 * BUCKET_BITS);
+
+function bucketOf(color: number): number {
+  const shift = 8 - BUCKET_BITS;
+  const mask = (1 << BUCKET_BITS) - 1;
+  return (
+    (((color >> (16 + shift)) & mask) << (2 * BUCKET_BITS)) |
+    (((color >> (8 + shift)) & mask) << BUCKET_BITS) |
+    ((color >> shift) & mask)
+  );
+}
+
+// Every bucket as its most common color, with the pixel count of the whole bucket
+function bucketColors(colorCounts: Map<number, number>): Map<number, number> {
+  const totals = new Uint32Array(BUCKET_COUNT);
+  const topCounts = new Uint32Array(BUCKET_COUNT);
+  const topColors = new Int32Array(BUCKET_COUNT).fill(-1);
+
+  for (const [color, count] of colorCounts) {
+    const bucket = bucketOf(color);
+    totals[bucket] += count;
+    if (count > topCounts[bucket]) {
+      topCounts[bucket] = count;
+      topColors[bucket] = color;
+    }
+  }
+
+  const counts = new Map<number, number>();
+  for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+    if (topColors[bucket] >= 0) counts.set(topColors[bucket], totals[bucket]);
+  }
+  return counts;
+}
+
+// Similar colors are looked up on a grid in the space the metric measures in (RGB, or Lab
+// for the delta E metrics): cells are as wide as the metric's reach, so every color within
+// reach of another lies in the 27 cells around it. For RGB and Lab distance the reach is the
+// threshold itself. CIEDE2000 forgives larger Lab differences between saturated colors;
+// four times its threshold covers chroma differences of colors up to a chroma of about 60.
+const SIMILARITY_REACH: Record<ColorMetric, number> = {
+  rgb: 30,
+  lab: 10,
+  ciede2000: 24,
+};
+
+// A color placed in grid space, with its Lab value for the delta E metrics
+interface GridColor {
+  x: number;
+  y: number;
+  z: number;
+  lab?: LabColor;
+}
+
+// Colors bucketed by cell, as indices into the list the grid was built from
+interface ColorGrid {
+  metric: ColorMetric;
+  colors: GridColor[];
+  cells: Map<number, number[]>;
+}
+
+function gridColor(rgb: { r: number; g: number; b: number }, metric: ColorMetric): GridColor {
+  if (metric === 'rgb') return { x: rgb.r, y: rgb.g, z: rgb.b };
+  // Lab a and b are shifted by 128 to keep cell coordinates positive
+  const lab = rgbToLab(rgb);
+  return { x: lab.l, y: lab.a + 128, z: lab.b + 128, lab };
+}
+
+// Cell coordinates stay below 30, plus one on either side for the cells around them
+function cellKey(color: GridColor, metric: ColorMetric, dx = 0, dy = 0, dz = 0): number {
+  const reach = SIMILARITY_REACH[metric];
+  const x = Math.floor(color.x / reach) + dx;
+  const y = Math.floor(color.y / reach) + dy;
+  const z = Math.floor(color.z / reach) + dz;
+  return ((x + 1) * 64 + y + 1) * 64 + z + 1;
+}
+
+function createColorGrid(colors: GridColor[], metric: ColorMetric): ColorGrid {
+  const cells = new Map<number, number[]>();
+  colors.forEach((color, i) => {
+    const key = cellKey(color, metric);
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+  return { metric, colors, cells };
+}
+
+// Indices of the grid's colors in the cells around a color
+function nearbyColors(grid: ColorGrid, color: GridColor): number[] {
+  const nearby: number[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const cell = grid.cells.get(cellKey(color, grid.metric, dx, dy, dz));
+        if (cell) nearby.push(...cell);
+      }
     }
   }
+  return nearby;
+}
 
-  return { width, height, colors: colorCounts };
+// Same as colorDistance, from the colors' places on the grid
+function gridDistance(a: GridColor, b: GridColor, metric: ColorMetric): number {
+  if (metric === 'lab') return deltaE76(a.lab!, b.lab!);
+  if (metric === 'ciede2000') return deltaE2000(a.lab!, b.lab!);
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(a.z - b.z, 2));
 }
 
-// Cluster similar colors together
-function clusterColors(colorCounts: Map<string, number>): Map<string, number> {
-  const clustered = new Map<string, number>();
-  const processed = new Set<string>();
+// Cluster similar colors together (colors are packed 0xRRGGBB). From the most common color
+// down, every color not yet in a cluster starts one and takes in the similar colors left.
+// Returns each cluster's color with its pixel count, and the cluster every color went to.
+function clusterColors(
+  colorCounts: Map<number, number>,
+  metric: ColorMetric
+): { clustered: Map<number, number>; clusterOf: Map<number, number> } {
+  const threshold = COLOR_SIMILARITY_THRESHOLDS[metric];
+  const clustered = new Map<number, number>();
+  const clusterOf = new Map<number, number>();
 
   const sortedColors = Array.from(colorCounts.entries()).sort((a, b) => b[1] - a[1]);
+  const grid = createColorGrid(
+    sortedColors.map(([color]) => gridColor(unpackRgb(color), metric)),
+    metric
+  );
+  const processed = new Uint8Array(sortedColors.length);
 
-  for (const [color, count] of sortedColors) {
-    if (processed.has(color)) continue;
+  for (let i = 0; i < sortedColors.length; i++) {
+    if (processed[i]) continue;
+    processed[i] = 1;
 
-    const rgb = hexToRgb(color);
-    let clusterColor = color;
+    const [clusterColor, count] = sortedColors[i];
     let clusterCount = count;
+    clusterOf.set(clusterColor, clusterColor);
 
     // Find similar colors and merge them
-    for (const [otherColor, otherCount] of colorCounts.entries()) {
-      if (processed.has(otherColor) || otherColor === color) continue;
+    for (const j of nearbyColors(grid, grid.colors[i])) {
+      if (processed[j]) continue;
 
-      const otherRgb = hexToRgb(otherColor);
-      if (colorDistance(rgb, otherRgb) <= COLOR_SIMILARITY_THRESHOLD) {
-        clusterCount += otherCount;
-        processed.add(otherColor);
+      if (gridDistance(grid.colors[i], grid.colors[j], metric) <= threshold) {
+        clusterCount += sortedColors[j][1];
+        clusterOf.set(sortedColors[j][0], clusterColor);
+        processed[j] = 1;
       }
     }
 
     clustered.set(clusterColor, clusterCount);
-    processed.add(color);
   }
 
-  return clustered;
+  return { clustered, clusterOf };
 }
 
-// Flood fill from the edges to find background
+// Index (into clusterColors) of the nearest cluster for every color. A color is within the
+// threshold of the cluster that took it in, so its nearest cluster is in the cells around it.
+function nearestClusters(
+  colors: Iterable<number>,
+  clusterOf: Map<number, number>,
+  clusterColors: number[],
+  metric: ColorMetric
+): Map<number, number> {
+  const indexOfCluster = new Map(clusterColors.map((color, index) => [color, index]));
+  const grid = createColorGrid(
+    clusterColors.map((color) => gridColor(unpackRgb(color), metric)),
+    metric
+  );
+  const nearest = new Map<number, number>();
+
+  for (const color of colors) {
+    const position = gridColor(unpackRgb(color), metric);
+    let best = indexOfCluster.get(clusterOf.get(color)!)!;
+    let minDist = gridDistance(position, grid.colors[best], metric);
+    for (const c of nearbyColors(grid, position)) {
+      const dist = gridDistance(position, grid.colors[c], metric);
+      if (dist < minDist || (dist === minDist && c < best)) {
+        minDist = dist;
+        best = c;
+      }
+    }
+    nearest.set(color, best);
+  }
+
+  return nearest;
+}
+
+// Flood fill from the edges to find background.
+// clusterIndex holds each pixel's cluster; filling continues into neighbors whose
+// cluster is the same or similar. Every pixel is queued at most once.
 function floodFillBackground(
-  image: any,
-  colorMap: Map<string, string>
-): boolean[][] {
-  const width = image.bitmap.width;
-  const height = image.bitmap.height;
-  const visited = Array.from({ length: height }, () => Array(width).fill(false));
-  const background = Array.from({ length: height }, () => Array(width).fill(false));
+  width: number,
+  height: number,
+  clusterIndex: Int32Array,
+  clusterRgb: { r: number; g: number; b: number }[],
+  metric: ColorMetric
+): Uint8Array {
+  const threshold = COLOR_SIMILARITY_THRESHOLDS[metric];
+  const background = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const similarCache = new Map<number, boolean>();
+  const similar = (a: number, b: number): boolean => {
+    if (a === b) return true;
+    const key = a < b ? a * clusterRgb.length + b : b * clusterRgb.length + a;
+    let result = similarCache.get(key);
+    if (result === undefined) {
+      result = colorDistance(clusterRgb[a], clusterRgb[b], metric) <= threshold;
+      similarCache.set(key, result);
+    }
+    return result;
+  };
 
-  const queue: [number, number][] = [];
+  const enqueue = (i: number) => {
+    if (!background[i]) {
+      background[i] = 1;
+      queue[tail++] = i;
+    }
+  };
 
   // Start flood fill from ALL edges of the image
-  // This ensures we capture background pixels that touch any edge
-  
-  // Top and bottom edges
   for (let x = 0; x < width; x++) {
-    queue.push([x, 0]); // Top edge
-    queue.push([x, height - 1]); // Bottom edge
+    enqueue(x); // Top edge
+    enqueue((height - 1) * width + x); // Bottom edge
   }
-  
-  // Left and right edges (excluding corners already added)
   for (let y = 1; y < height - 1; y++) {
-    queue.push([0, y]); // Left edge
-    queue.push([width - 1, y]); // Right edge
+    enqueue(y * width); // Left edge
+    enqueue(y * width + width - 1); // Right edge
   }
 
-  while (queue.length > 0) {
-    const [x, y] = queue.shift()!;
-
-    if (x < 0 || x >= width || y < 0 || y >= height) continue;
-    if (visited[y][x]) continue;
-
-    visited[y][x] = true;
-
-    const pixel = intToRGBA(image.getPixelColor(x, y));
-    const hex = rgbToHex(pixel.r, pixel.g, pixel.b);
-    const clusterColor = colorMap.get(hex) || hex;
-
-    // Mark as background - we'll flood fill from each edge pixel
-    // If it's a background color, continue flooding
-    background[y][x] = true;
-
-    // Add neighbors to queue to continue flood fill
-    // Only add if they're the same or similar color (background continuation)
-    const checkAndAdd = (nx: number, ny: number) => {
-      if (nx < 0 || nx >= width || ny < 0 || ny >= height) return;
-      if (visited[ny][nx]) return;
-      
-      const neighborPixel = intToRGBA(image.getPixelColor(nx, ny));
-      const neighborHex = rgbToHex(neighborPixel.r, neighborPixel.g, neighborPixel.b);
-      const neighborCluster = colorMap.get(neighborHex) || neighborHex;
-      
-      // Only continue flooding if the neighbor is the same/similar color
-      if (neighborCluster === clusterColor || 
-          colorDistance(hexToRgb(neighborCluster), hexToRgb(clusterColor)) <= COLOR_SIMILARITY_THRESHOLD) {
-        queue.push([nx, ny]);
-      }
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const cluster = clusterIndex[p];
+
+    // Only continue flooding into neighbors of the same/similar color
+    const visit = (n: number) => {
+      if (!background[n] && similar(cluster, clusterIndex[n])) enqueue(n);
     };
 
-    checkAndAdd(x + 1, y);
-    checkAndAdd(x - 1, y);
-    checkAndAdd(x, y + 1);
-    checkAndAdd(x, y - 1);
+    if (x < width - 1) visit(p + 1);
+    if (x > 0) visit(p - 1);
+    if (p + width < width * height) visit(p + width);
+    if (p >= width) visit(p - width);
   }
 
   return background;
 }
 
-export async function processImage(filepath: string): Promise<ProcessedImage> {
-  const image = await loadImage(filepath);
-  const width = image.bitmap.width;
-  const height = image.bitmap.height;
+// Every pixel as a packed 0xRRGGBB value, row-major
+export async function loadPixelColors(filepath: string): Promise<{ width: number; height: number; rgb: Uint32Array }> {
+  const { width, height, rgb } = readPixels(await loadImage(filepath));
+  return { width, height, rgb };
+}
 
-  // Step 1: Collect all colors
-  const colorCounts = new Map<string, number>();
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const pixel = intToRGBA(image.getPixelColor(x, y));
-      const hex = rgbToHex(pixel.r, pixel.g, pixel.b);
-      colorCounts.set(hex, (colorCounts.get(hex) || 0) + 1);
+// Perceived brightness of every pixel from 0 (black) to 1 (white), as CIE L*.
+// Transparent pixels are blended onto white.
+export async function loadLuminance(filepath: string): Promise<{ width: number; height: number; luminance: Float32Array }> {
+  const { width, height, rgb, alpha } = readPixels(await loadImage(filepath));
+  const luminance = new Float32Array(width * height);
+  const cache = new Map<number, number>();
+
+  for (let i = 0; i < width * height; i++) {
+    const color = unpackRgb(rgb[i]);
+    const a = alpha[i] / 255;
+    const blended = packRgb({
+      r: color.r * a + 255 * (1 - a),
+      g: color.g * a + 255 * (1 - a),
+      b: color.b * a + 255 * (1 - a),
+    });
+    let value = cache.get(blended);
+    if (value === undefined) {
+      value = Math.min(1, Math.max(0, rgbToLab(unpackRgb(blended)).l / 100));
+      cache.set(blended, value);
     }
+    luminance[i] = value;
   }
 
-  // Step 2: Cluster similar colors
-  const clusteredColors = clusterColors(colorCounts);
+  return { width, height, luminance };
+}
 
-  // Step 3: Find top 16 modal colors (excluding background)
-  const sortedColors = Array.from(clusteredColors.entries())
-    .sort((a, b) => b[1] - a[1])
-    .map(([color]) => color);
+export async function processImage(filepath: string, options: ConfigOptions = {}): Promise<ProcessedImage> {
+  const metric = options.colorMetric ?? 'rgb';
+  const background = options.background ?? { strategy: 'flood' };
+  const pixels = readPixels(await loadImage(filepath));
+  const { width, height, rgb } = pixels;
+  const pixelCount = width * height;
 
-  // Step 4: Create a mapping from all colors to their cluster representative
-  const colorMap = new Map<string, string>();
-  for (const [color] of colorCounts.entries()) {
-    const rgb = hexToRgb(color);
-    let bestMatch = sortedColors[0];
-    let minDist = colorDistance(rgb, hexToRgb(bestMatch));
+  // Except for flood fill, the background is known up front and left out of clustering
+  const knownBackground = background.strategy === 'flood' ? undefined : pixelBackground(pixels, background, metric);
 
-    for (const clusterColor of sortedColors) {
-      const dist = colorDistance(rgb, hexToRgb(clusterColor));
-      if (dist < minDist) {
-        minDist = dist;
-        bestMatch = clusterColor;
+  // Step 1: Collect all colors
+  const colorCounts = new Map<number, number>();
+  for (let i = 0; i < pixelCount; i++) {
+    if (knownBackground?.[i]) continue;
+    colorCounts.set(rgb[i], (colorCounts.get(rgb[i]) || 0) + 1);
+  }
+
+  const algorithm = options.quantize?.algorithm ?? 'cluster';
+  const targetColors = options.quantize?.colors ?? DEFAULT_QUANTIZE_COLORS;
+
+  // Steps 2-4 group similar colors into clusters. The "cluster" algorithm picks its
+  // palette from them, and flood fill uses them to follow the background.
+  let sortedColors: number[] = [];
+  let clusterRgb: { r: number; g: number; b: number }[] = [];
+  const clusterIndex = new Int32Array(pixelCount).fill(-1);
+  if (algorithm === 'cluster' || !knownBackground) {
+    // Step 2: Cluster similar colors (for photos, the buckets' most common colors)
+    const bucketed = colorCounts.size > BUCKET_COUNT;
+    const clusterInput = bucketed ? bucketColors(colorCounts) : colorCounts;
+    const { clustered, clusterOf } = clusterColors(clusterInput, metric);
+
+    // Step 3: Sort clusters by size
+    sortedColors = Array.from(clustered.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([color]) => color);
+    clusterRgb = sortedColors.map(unpackRgb);
+
+    // Step 4: Map every color (or bucket) to its nearest cluster representative, then every
+    // pixel to its cluster
+    const nearest = nearestClusters(clusterInput.keys(), clusterOf, sortedColors, metric);
+    if (bucketed) {
+      const clusterOfBucket = new Int32Array(BUCKET_COUNT);
+      for (const [color, cluster] of nearest) {
+        clusterOfBucket[bucketOf(color)] = cluster;
+      }
+      for (let i = 0; i < pixelCount; i++) {
+        if (!knownBackground?.[i]) clusterIndex[i] = clusterOfBucket[bucketOf(rgb[i])];
+      }
+    } else {
+      for (let i = 0; i < pixelCount; i++) {
+        const cluster = nearest.get(rgb[i]);
+        if (cluster !== undefined) clusterIndex[i] = cluster;
       }
     }
-    colorMap.set(color, bestMatch);
   }
 
-  // Step 5: Detect background using flood fill
-  const backgroundMask = floodFillBackground(image, colorMap);
+  // Step 5: Detect background using flood fill, unless another strategy already did
+  const backgroundMask = knownBackground ?? floodFillBackground(width, height, clusterIndex, clusterRgb, metric);
 
-  // Step 6: Get modal colors excluding background
-  const foregroundCounts = new Map<string, number>();
-  let totalForegroundPixels = 0;
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      if (!backgroundMask[y][x]) {
+  // Step 6: Pick the palette from the foreground and index every foreground pixel into it
+  let palette: number[];
+  const colorIndices = new Uint8Array(pixelCount).fill(NO_COLOR);
+
+  if (algorithm === 'cluster') {
+    const foregroundCounts = new Uint32Array(sortedColors.length);
+    let totalForegroundPixels = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      if (!backgroundMask[i]) {
         totalForegroundPixels++;
-        const pixel = intToRGBA(image.getPixelColor(x, y));
-        const hex = rgbToHex(pixel.r, pixel.g, pixel.b);
-        const clusterColor = colorMap.get(hex) || hex;
-        foregroundCounts.set(clusterColor, (foregroundCounts.get(clusterColor) || 0) + 1);
+        foregroundCounts[clusterIndex[i]]++;
       }
     }
+
+    // Filter out colors with very few pixels (less than 0.1% of foreground)
+    // This removes single-pixel artifacts and noise
+    const minPixelCount = Math.max(10, totalForegroundPixels * 0.001);
+
+    const modalClusters = sortedColors
+      .map((_, c) => c)
+      .filter((c) => foregroundCounts[c] >= minPixelCount)
+      .sort((a, b) => foregroundCounts[b] - foregroundCounts[a])
+      .slice(0, targetColors);
+    palette = modalClusters.map((c) => sortedColors[c]);
+
+    // Every cluster goes to its nearest modal color
+    const modalRgb = modalClusters.map((c) => clusterRgb[c]);
+    const modalOfCluster = clusterRgb.map((clusterColor) => nearestColorIndex(clusterColor, modalRgb, metric));
+    for (let i = 0; i < pixelCount; i++) {
+      if (!backgroundMask[i]) colorIndices[i] = modalOfCluster[clusterIndex[i]];
+    }
+  } else {
+    const foregroundColors = new Map<number, number>();
+    for (let i = 0; i < pixelCount; i++) {
+      if (!backgroundMask[i]) foregroundColors.set(rgb[i], (foregroundColors.get(rgb[i]) || 0) + 1);
+    }
+    palette = quantizeColors(foregroundColors, algorithm, targetColors);
+
+    // Every distinct color goes to its nearest palette color
+    const paletteRgb = palette.map(unpackRgb);
+    const indexOf = new Map<number, number>();
+    for (const color of foregroundColors.keys()) {
+      indexOf.set(color, nearestColorIndex(unpackRgb(color), paletteRgb, metric));
+    }
+    for (let i = 0; i < pixelCount; i++) {
+      if (!backgroundMask[i]) colorIndices[i] = indexOf.get(rgb[i])!;
+    }
   }
 
-  // Filter out colors with very few pixels (less than 0.1% of foreground)
-  // This removes single-pixel artifacts and noise
-  const minPixelCount = Math.max(10, totalForegroundPixels * 0.001);
-  
-  const modalColors = Array.from(foregroundCounts.entries())
-    .filter(([_, count]) => count >= minPixelCount)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 16)
-    .map(([color]) => color);
-
-  // Step 7: Create final pixel color map
-  const pixelColors: string[][] = Array.from({ length: height }, () => Array(width).fill(''));
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      if (!backgroundMask[y][x]) {
-        const pixel = intToRGBA(image.getPixelColor(x, y));
-        const hex = rgbToHex(pixel.r, pixel.g, pixel.b);
-        const clusterColor = colorMap.get(hex) || hex;
-
-        // Map to nearest modal color
-        const rgb = hexToRgb(clusterColor);
-        let nearest = modalColors[0];
-        let minDist = Infinity;
-        for (const modalColor of modalColors) {
-          const dist = colorDistance(rgb, hexToRgb(modalColor));
-          if (dist < minDist) {
-            minDist = dist;
-            nearest = modalColor;
-          }
-        }
-        pixelColors[y][x] = nearest;
-      }
+  // Step 7: Snap to the fixed palette; several colors may land on the same entry
+  const fixedPalette = options.quantize?.palette;
+  if (fixedPalette) {
+    const fixedRgb = fixedPalette.map(hexToRgb);
+    const snapped = palette.map((color) => nearestColorIndex(unpackRgb(color), fixedRgb, metric));
+    for (let i = 0; i < pixelCount; i++) {
+      if (colorIndices[i] !== NO_COLOR) colorIndices[i] = snapped[colorIndices[i]];
     }
+    palette = fixedRgb.map(packRgb);
   }
 
+  // Step 8: Give blended edge pixels of anti-aliased art to the regions they blend
+  if (options.antialias) {
+    // Transparent pixels have no meaningful color to blend with
+    const blendWithBackground = background.strategy === 'flood' || background.strategy === 'color';
+    resolveAntialiasedEdges(pixels, palette.map(unpackRgb), colorIndices, backgroundMask, blendWithBackground, metric);
+  }
+
+  // Count pixels per palette entry and drop unused ones. The cluster palette keeps its
+  // historic order; otherwise entries are sorted by pixel count.
+  const counts = new Uint32Array(palette.length);
+  for (let i = 0; i < pixelCount; i++) {
+    if (colorIndices[i] !== NO_COLOR) counts[colorIndices[i]]++;
+  }
+
+  const order = palette.map((_, index) => index).filter((index) => counts[index] > 0);
+  if (algorithm !== 'cluster' || fixedPalette) {
+    order.sort((a, b) => counts[b] - counts[a] || a - b);
+  }
+  const remap = new Uint8Array(256).fill(NO_COLOR);
+  order.forEach((index, position) => (remap[index] = position));
+  for (let i = 0; i < pixelCount; i++) {
+    colorIndices[i] = remap[colorIndices[i]];
+  }
+
+  const modalColors = order.map((index) => packedToHex(palette[index]));
+  const modalPixelCounts = new Map<string, number>();
+  order.forEach((index, position) => modalPixelCounts.set(modalColors[position], counts[index]));
+
   return {
     width,
     height,
-    pixelColors,
     modalColors,
+    modalPixelCounts,
+    colorIndices,
     backgroundMask,
   };
 }
 
-// Create monochrome PNG mask for a specific color
-// Excludes pixels already claimed by previous masks (to prevent overlapping geometry)
-export async function createColorMask(
-  processedImage: ProcessedImage,
-  color: string,
-  usedPixels?: Set<string>
-): Promise<any> {
-  const { width, height, pixelColors } = processedImage;
-  const mask = new Jimp({ width, height, color: 0x000000FF }); // Black background
-  
-  if (!usedPixels) {
-    usedPixels = new Set();
+// How far around a pixel to look for the regions it may be a blend of
+const BLEND_RADIUS = 2;
+
+// Fraction of the way along a blend that still counts as one of its ends
+const BLEND_END_MARGIN = 0.02;
+
+// Anti-aliasing leaves pixels on every edge that are a mix of the colors on either side.
+// Nearest-color matching turns them into thin halos of whatever palette color is closest
+// (a grey ring between black and white). Instead, find pixels whose original color lies
+// on the line between two palette colors present nearby, and give each one to whichever
+// of the two it is closer to. With blendWithBackground the background counts as a region.
+function resolveAntialiasedEdges(
+  pixels: PixelBuffer,
+  paletteRgb: { r: number; g: number; b: number }[],
+  colorIndices: Uint8Array,
+  backgroundMask: Uint8Array,
+  blendWithBackground: boolean,
+  metric: ColorMetric
+): void {
+  const { width, height, rgb } = pixels;
+  const threshold = COLOR_SIMILARITY_THRESHOLDS[metric];
+  const originalIndices = colorIndices.slice();
+  const originalBackground = backgroundMask.slice();
+  const BACKGROUND = -1;
+
+  // A pixel is solid when its whole 3x3 neighborhood has its label. Only solid pixels
+  // stand for a region, so halo colors (themselves thin blends) never act as an end.
+  const labelAt = (n: number) => (originalBackground[n] ? BACKGROUND : originalIndices[n]);
+  const solid = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const label = labelAt(i);
+      let uniform = true;
+      for (let dy = -1; dy <= 1 && uniform; dy++) {
+        for (let dx = -1; dx <= 1 && uniform; dx++) {
+          if (labelAt(i + dy * width + dx) !== label) uniform = false;
+        }
+      }
+      if (uniform) solid[i] = 1;
+    }
   }
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const key = `${x},${y}`;
-      if (pixelColors[y][x] === color && !usedPixels.has(key)) {
-        mask.setPixelColor(0xFFFFFFFF, x, y); // White for this color
-        usedPixels.add(key);
+      const i = y * width + x;
+      if (originalBackground[i] || solid[i]) continue;
+
+      // Solid regions around the pixel, with the color each one has
+      const ends = new Map<number, { r: number; g: number; b: number }>();
+      for (let dy = -BLEND_RADIUS; dy <= BLEND_RADIUS; dy++) {
+        for (let dx = -BLEND_RADIUS; dx <= BLEND_RADIUS; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          const n = ny * width + nx;
+          if (!solid[n]) continue;
+          if (originalBackground[n]) {
+            if (blendWithBackground && !ends.has(BACKGROUND)) ends.set(BACKGROUND, unpackRgb(rgb[n]));
+          } else if (originalIndices[n] !== NO_COLOR && !ends.has(originalIndices[n])) {
+            ends.set(originalIndices[n], paletteRgb[originalIndices[n]]);
+          }
+        }
+      }
+      if (ends.size < 2) continue;
+
+      // Find the pair of regions whose blend explains the pixel best
+      const color = unpackRgb(rgb[i]);
+      const candidates = Array.from(ends.entries());
+      let bestRegion: number | undefined;
+      let bestResidual = threshold;
+      for (let a = 0; a < candidates.length; a++) {
+        for (let b = a + 1; b < candidates.length; b++) {
+          const [regionA, colorA] = candidates[a];
+          const [regionB, colorB] = candidates[b];
+          const dr = colorB.r - colorA.r;
+          const dg = colorB.g - colorA.g;
+          const db = colorB.b - colorA.b;
+          const lengthSquared = dr * dr + dg * dg + db * db;
+          if (lengthSquared === 0) continue;
+
+          const t = ((color.r - colorA.r) * dr + (color.g - colorA.g) * dg + (color.b - colorA.b) * db) / lengthSquared;
+          if (t <= BLEND_END_MARGIN || t >= 1 - BLEND_END_MARGIN) continue;
+
+          const blend = { r: colorA.r + t * dr, g: colorA.g + t * dg, b: colorA.b + t * db };
+          const residual = colorDistance(color, blend, metric);
+          if (residual <= bestResidual) {
+            bestResidual = residual;
+            bestRegion = t < 0.5 ? regionA : regionB;
+          }
+        }
+      }
+      if (bestRegion === undefined) continue;
+
+      if (bestRegion === BACKGROUND) {
+        backgroundMask[i] = 1;
+        colorIndices[i] = NO_COLOR;
+      } else {
+        colorIndices[i] = bestRegion;
       }
     }
   }
+}
 
-  removeSinglePixelArtifacts(mask);
+// Index of the candidate closest to rgb (NO_COLOR if there are no candidates)
+function nearestColorIndex(
+  rgb: { r: number; g: number; b: number },
+  candidates: { r: number; g: number; b: number }[],
+  metric: ColorMetric
+): number {
+  let best = NO_COLOR;
+  let minDist = Infinity;
+  for (let i = 0; i < candidates.length; i++) {
+    const dist = colorDistance(rgb, candidates[i], metric);
+    if (dist < minDist) {
+      minDist = dist;
+      best = i;
+    }
+  }
+  return best;
+}
 
-  return mask;
+// Palette indices of the given hex colors, as a lookup table
+function paletteSelection(processedImage: ProcessedImage, colors: string[]): Uint8Array {
+  const selected = new Uint8Array(256);
+  for (const color of colors) {
+    const index = processedImage.modalColors.indexOf(color);
+    if (index >= 0) selected[index] = 1;
+  }
+  return selected;
 }
 
-// Post-process mask to remove single-pixel artifacts
-// Any pixel that differs from all 8 neighbors is replaced with neighbor color
-function removeSinglePixelArtifacts(mask: any): void {
-  const width = mask.bitmap.width;
-  const height = mask.bitmap.height;
-  const { intToRGBA } = require('@jimp/utils');
-  
-  // Create a copy of pixel values to avoid modifying while reading
-  const pixels: boolean[][] = Array.from({ length: height }, () => Array(width).fill(false));
-  
-  // Read current pixel values (true = white/foreground, false = black/background)
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const color = mask.getPixelColor(x, y);
-      const rgba = intToRGBA(color);
-      pixels[y][x] = rgba.r > 128; // White is foreground
+// Write a 0/1 pixel buffer into a new monochrome Jimp mask (white = 1)
+function bufferToMask(width: number, height: number, pixels: Uint8Array): any {
+  const mask = new Jimp({ width, height, color: 0x000000FF }); // Black background
+  const data = mask.bitmap.data;
+
+  for (let i = 0; i < width * height; i++) {
+    if (pixels[i]) {
+      data[i * 4] = 0xff;
+      data[i * 4 + 1] = 0xff;
+      data[i * 4 + 2] = 0xff;
     }
   }
-  
-  // Check each pixel and fix single-pixel artifacts
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const currentPixel = pixels[y][x];
-      
-      // Check all 8 neighbors
-      const neighbors: boolean[] = [];
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dx = -1; dx <= 1; dx++) {
-          if (dx === 0 && dy === 0) continue; // Skip center pixel
-          
-          const nx = x + dx;
-          const ny = y + dy;
-          
-          // If neighbor is out of bounds, treat it as background (false)
-          if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
-            neighbors.push(false);
-          } else {
-            neighbors.push(pixels[ny][nx]);
-          }
-        }
-      }
-      
-      // If all neighbors have the same value and it's different from current pixel,
-      // this is a single-pixel artifact
-      const allSame = neighbors.every(n => n === neighbors[0]);
-      if (allSame && neighbors[0] !== currentPixel) {
-        // Replace with neighbor color
-        const newColor = neighbors[0] ? 0xFFFFFFFF : 0x000000FF;
-        mask.setPixelColor(newColor, x, y);
-      }
+
+  return mask;
+}
+
+// Create monochrome PNG mask for a specific color (or several colors sharing a filament)
+// Excludes pixels already claimed by previous masks (to prevent overlapping geometry)
+export async function createColorMask(
+  processedImage: ProcessedImage,
+  color: string | string[],
+  usedPixels?: Uint8Array
+): Promise<any> {
+  const { width, height, colorIndices } = processedImage;
+  const selected = paletteSelection(processedImage, Array.isArray(color) ? color : [color]);
+  const used = usedPixels ?? new Uint8Array(width * height);
+  const pixels = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    if (selected[colorIndices[i]] && !used[i]) {
+      pixels[i] = 1; // White for this color
+      used[i] = 1;
     }
   }
+
+  removeSinglePixelArtifacts(pixels, width, height);
+
+  return bufferToMask(width, height, pixels);
+}
+
+// A pixel whose 8 neighbors all agree with each other but not with it flips to match them
+function removeSinglePixelArtifacts(pixels: Uint8Array, width: number, height: number): void {
+  const labels = Int32Array.from(pixels, (value) => (value ? 0 : -1));
+  removeSinglePixelLabels(labels, width, height);
+  for (let i = 0; i < width * height; i++) {
+    pixels[i] = labels[i] >= 0 ? 1 : 0;
+  }
 }
 
-// Create mask for any pixel (for backplane)
+// Create monochrome PNG mask of the whole foreground
 export async function createBackplaneMask(
   processedImage: ProcessedImage
 ): Promise<any> {
   const { width, height, backgroundMask } = processedImage;
-  const mask = new Jimp({ width, height, color: 0x000000FF }); // Black background
+  const pixels = backgroundMask.map((value) => (value ? 0 : 1)); // White for any foreground pixel
+
+  removeSinglePixelArtifacts(pixels, width, height);
+
+  return bufferToMask(width, height, pixels);
+}
+
+// Create mask for the sandwich plane: every foreground pixel not covered by a color mask
+export async function createSandwichMask(
+  processedImage: ProcessedImage,
+  colorMasks: any[]
+): Promise<any> {
+  const { width, height, backgroundMask } = processedImage;
+  const pixels = backgroundMask.map((value) => (value ? 0 : 1));
+
+  for (const colorMask of colorMasks) {
+    const data = colorMask.bitmap.data;
+    for (let i = 0; i < width * height; i++) {
+      if (data[i * 4] > 128) pixels[i] = 0;
+    }
+  }
+
+  return bufferToMask(width, height, pixels);
+}
+
+// Create one label grid covering all colors, labelled by their index in `colors`
+// (-1 for background and unlisted colors); every hex color in colors[i] gets label i.
+// Every pixel belongs to at most one color, and artifact cleanup happens once on the
+// shared grid instead of per mask.
+// If foregroundLabel is given, foreground pixels without a listed color get that label.
+export function createLabelGrid(
+  processedImage: ProcessedImage,
+  colors: string[][],
+  foregroundLabel?: number
+): LabelGrid {
+  const { width, height, modalColors, colorIndices, backgroundMask } = processedImage;
+  const labels = new Int32Array(width * height).fill(-1);
+
+  // Label for every palette index
+  const labelOfIndex = new Int32Array(256).fill(-1);
+  colors.forEach((group, label) => {
+    for (const color of group) {
+      const index = modalColors.indexOf(color);
+      if (index >= 0 && labelOfIndex[index] < 0) labelOfIndex[index] = label;
+    }
+  });
+
+  for (let i = 0; i < width * height; i++) {
+    const label = labelOfIndex[colorIndices[i]];
+    if (label >= 0) {
+      labels[i] = label;
+    } else if (foregroundLabel !== undefined && !backgroundMask[i]) {
+      labels[i] = foregroundLabel;
+    }
+  }
+
+  removeSinglePixelLabels(labels, width, height);
+
+  return { width, height, labels };
+}
+
+// Same rule as removeSinglePixelArtifacts, applied to a label grid:
+// a pixel whose 8 neighbors all share one other label takes that label
+function removeSinglePixelLabels(labels: Int32Array, width: number, height: number): void {
+  const original = labels.slice();
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      if (!backgroundMask[y][x]) {
-        mask.setPixelColor(0xFFFFFFFF, x, y); // White for any foreground pixel
+      let neighborLabel: number | undefined;
+      let allSame = true;
+
+      for (let dy = -1; dy <= 1 && allSame; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+
+          const nx = x + dx;
+          const ny = y + dy;
+          // Out of bounds counts as background
+          const label = nx < 0 || nx >= width || ny < 0 || ny >= height ? -1 : original[ny * width + nx];
+
+          if (neighborLabel === undefined) {
+            neighborLabel = label;
+          } else if (label !== neighborLabel) {
+            allSame = false;
+            break;
+          }
+        }
+      }
+
+      if (allSame && neighborLabel !== original[y * width + x]) {
+        labels[y * width + x] = neighborLabel!;
       }
     }
   }
-
-  removeSinglePixelArtifacts(mask);
-
-  return mask;
 }
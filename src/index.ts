@@ -1,4 +1,6 @@
 export { processImageTo3MF, generateConfigFromImage } from './processor';
-export { Config, ColorConfig, BackingConfig, SandwichConfig } from './config';
-export { ProcessedImage } from './image-processor';
+export { Config, ColorConfig, BackingConfig, SandwichConfig, ConfigOptions, MetadataConfig } from './config';
+export { ProcessedImage, NO_COLOR, pixelColorAt, isBackgroundAt } from './image-processor';
 export { BAMBU_BASIC_COLORS, FilamentColor } from './colors';
+export { FilamentCatalog, BUNDLED_CATALOGS, loadFilamentCatalog, findNearestFilament } from './filaments';
+export { ThreeMFObject, Transform3MF, read3MF, parse3MF } from './3mf-reader';
@@ -0,0 +1,158 @@
+import { MeshObject } from './3mf';
+import { LithophaneConfig } from './config';
+
+export const DEFAULT_LITHOPHANE_MIN_THICKNESS = 0.8;
+export const DEFAULT_LITHOPHANE_MAX_THICKNESS = 3;
+export const DEFAULT_LITHOPHANE_ANGLE = 120;
+
+export interface LithophaneMesh {
+  mesh: MeshObject;
+  widthMm: number; // footprint on the plate, the mesh starts at x = y = 0
+  depthMm: number;
+}
+
+// Thickness of every pixel in mm, padded with the frame on each side
+function thicknessGrid(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  lithophane: LithophaneConfig,
+  scale: number
+): { thickness: Float32Array; width: number; height: number } {
+  const minThickness = lithophane.minThickness ?? DEFAULT_LITHOPHANE_MIN_THICKNESS;
+  const maxThickness = lithophane.maxThickness ?? DEFAULT_LITHOPHANE_MAX_THICKNESS;
+  const border = lithophane.frame ? Math.max(1, Math.round(lithophane.frame.width / scale)) : 0;
+  const frameThickness = lithophane.frame?.thickness ?? maxThickness;
+
+  const paddedWidth = width + 2 * border;
+  const paddedHeight = height + 2 * border;
+  const thickness = new Float32Array(paddedWidth * paddedHeight).fill(frameThickness);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const brightness = luminance[y * width + x];
+      const amount = lithophane.invert ? 1 - brightness : brightness;
+      thickness[(y + border) * paddedWidth + x + border] = minThickness + amount * (maxThickness - minThickness);
+    }
+  }
+
+  return { thickness, width: paddedWidth, height: paddedHeight };
+}
+
+// Build a closed panel from a luminance map (0-1 per pixel, row-major). The relief is a
+// grid with one vertex per pixel corner, each at the mean thickness of the pixels around
+// it; the back is flat, or for curved panels the outside of the cylinder.
+export function createLithophaneMesh(
+  luminance: Float32Array,
+  imageWidth: number,
+  imageHeight: number,
+  lithophane: LithophaneConfig,
+  scale: number
+): LithophaneMesh {
+  const { thickness, width, height } = thicknessGrid(luminance, imageWidth, imageHeight, lithophane, scale);
+  const columns = width + 1;
+
+  // Panel coordinates: u along the image width, v up the image, d the thickness.
+  // Flat panels lie on the plate; curved ones stand with v pointing up.
+  const curved = lithophane.shape === 'curved';
+  const angle = ((lithophane.angle ?? DEFAULT_LITHOPHANE_ANGLE) * Math.PI) / 180;
+  const radius = (width * scale) / angle;
+  if (curved && radius <= (lithophane.maxThickness ?? DEFAULT_LITHOPHANE_MAX_THICKNESS)) {
+    throw new Error('Lithophane is too thick for its curve: use a smaller angle or a thinner panel');
+  }
+  const toPoint = (i: number, k: number, d: number) => {
+    if (!curved) return { x: i * scale, y: k * scale, z: d };
+    const theta = (i / width - 0.5) * angle;
+    return { x: (radius - d) * Math.sin(theta), y: (radius - d) * Math.cos(theta), z: k * scale };
+  };
+
+  // Corner (i, k) touches the pixels of columns i-1, i and image rows height-k-1, height-k
+  const cornerThickness = (i: number, k: number) => {
+    let sum = 0;
+    let count = 0;
+    for (let x = i - 1; x <= i; x++) {
+      for (let y = height - k - 1; y <= height - k; y++) {
+        if (x < 0 || x >= width || y < 0 || y >= height) continue;
+        sum += thickness[y * width + x];
+        count++;
+      }
+    }
+    return sum / count;
+  };
+
+  const mesh: MeshObject = { vertices: [], triangles: [] };
+  for (let k = 0; k <= height; k++) {
+    for (let i = 0; i <= width; i++) {
+      mesh.vertices.push(toPoint(i, k, cornerThickness(i, k)));
+    }
+  }
+  const top = (i: number, k: number) => k * columns + i;
+
+  // Relief, counter-clockwise seen from the front
+  for (let k = 0; k < height; k++) {
+    for (let i = 0; i < width; i++) {
+      mesh.triangles.push({ v1: top(i, k), v2: top(i + 1, k), v3: top(i + 1, k + 1) });
+      mesh.triangles.push({ v1: top(i, k), v2: top(i + 1, k + 1), v3: top(i, k + 1) });
+    }
+  }
+
+  // The back only needs vertices on the outline
+  const backIndex = new Map<number, number>();
+  const back = (i: number, k: number) => {
+    const key = k * columns + i;
+    let index = backIndex.get(key);
+    if (index === undefined) {
+      index = mesh.vertices.length;
+      mesh.vertices.push(toPoint(i, k, 0));
+      backIndex.set(key, index);
+    }
+    return index;
+  };
+
+  // Back face as one strip per column; the first and last strips zip along the side edges
+  for (let i = 0; i < width; i++) {
+    const left = i === 0 ? Array.from({ length: height + 1 }, (_, k) => k) : [0, height];
+    const right = i === width - 1 ? Array.from({ length: height + 1 }, (_, k) => k) : [0, height];
+    let l = 0;
+    let r = 0;
+    while (l < left.length - 1 || r < right.length - 1) {
+      if (r === right.length - 1 || (l < left.length - 1 && left[l + 1] <= right[r + 1])) {
+        mesh.triangles.push({ v1: back(i, left[l]), v2: back(i, left[l + 1]), v3: back(i + 1, right[r]) });
+        l++;
+      } else {
+        mesh.triangles.push({ v1: back(i, left[l]), v2: back(i + 1, right[r + 1]), v3: back(i + 1, right[r]) });
+        r++;
+      }
+    }
+  }
+
+  // Side walls along the outline, walked counter-clockwise
+  const outline: [number, number][] = [];
+  for (let i = 0; i < width; i++) outline.push([i, 0]);
+  for (let k = 0; k < height; k++) outline.push([width, k]);
+  for (let i = width; i > 0; i--) outline.push([i, height]);
+  for (let k = height; k > 0; k--) outline.push([0, k]);
+  for (let n = 0; n < outline.length; n++) {
+    const [pi, pk] = outline[n];
+    const [qi, qk] = outline[(n + 1) % outline.length];
+    mesh.triangles.push({ v1: back(pi, pk), v2: back(qi, qk), v3: top(qi, qk) });
+    mesh.triangles.push({ v1: back(pi, pk), v2: top(qi, qk), v3: top(pi, pk) });
+  }
+
+  // Move the panel to the origin of the plate
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const vertex of mesh.vertices) {
+    minX = Math.min(minX, vertex.x);
+    minY = Math.min(minY, vertex.y);
+    maxX = Math.max(maxX, vertex.x);
+    maxY = Math.max(maxY, vertex.y);
+  }
+  for (const vertex of mesh.vertices) {
+    vertex.x -= minX;
+    vertex.y -= minY;
+  }
+
+  return { mesh, widthMm: maxX - minX, depthMm: maxY - minY };
+}
@@ -0,0 +1,502 @@
+import { MeshObject } from './3mf';
+import { triangulate } from './triangulate';
+
+// Label image to be meshed: one label per pixel, -1 where there is nothing
+export interface LabelGrid {
+  width: number;
+  height: number;
+  labels: Int32Array;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// A filled region traced from a label grid.
+// Coordinates are pixel corners with y pointing up (image row 0 ends up at the top),
+// the outer ring runs counter-clockwise and holes run clockwise.
+export interface RegionPolygon {
+  label: number;
+  outer: Point2D[];
+  holes: Point2D[][];
+}
+
+// Edge directions in counter-clockwise order: +x, +y, -x, -y
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+// Build a label grid from a monochrome Jimp mask (white = filled)
+export function maskToLabelGrid(mask: any): LabelGrid {
+  const width = mask.bitmap.width;
+  const height = mask.bitmap.height;
+  const data = mask.bitmap.data;
+  const labels = new Int32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    labels[i] = data[i * 4] > 128 ? 0 : -1;
+  }
+
+  return { width, height, labels };
+}
+
+// Collapse every label into one, giving the combined footprint of all regions
+export function footprintGrid(grid: LabelGrid): LabelGrid {
+  const labels = grid.labels.map((label) => (label >= 0 ? 0 : -1));
+  return { width: grid.width, height: grid.height, labels };
+}
+
+// Label 4-connected components of equal label, returns component id per pixel (-1 for empty)
+function labelComponents(grid: LabelGrid): Int32Array {
+  const { width, height, labels } = grid;
+  const components = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let componentCount = 0;
+
+  for (let start = 0; start < width * height; start++) {
+    if (labels[start] < 0 || components[start] >= 0) continue;
+
+    const label = labels[start];
+    const id = componentCount++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    components[start] = id;
+
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      const y = (p - x) / width;
+
+      const visit = (n: number) => {
+        if (labels[n] === label && components[n] < 0) {
+          components[n] = id;
+          queue[tail++] = n;
+        }
+      };
+
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (y > 0) visit(p - width);
+      if (y < height - 1) visit(p + width);
+    }
+  }
+
+  return components;
+}
+
+// Trace the outlines of every labelled region in the grid.
+// Boundaries follow pixel edges; collinear runs are merged into single segments.
+// Pixels that only touch diagonally are treated as separate regions.
+// With preserveJunctions, a vertex is also kept wherever the label on the other side of the
+// boundary changes, so two regions sharing a border trace exactly the same polyline.
+export function traceRegions(grid: LabelGrid, preserveJunctions: boolean = false): RegionPolygon[] {
+  const { width, height, labels } = grid;
+  const components = labelComponents(grid);
+  const stride = width + 1;
+  const vertexCount = stride * (height + 1);
+
+  const labelAt = (x: number, y: number): number =>
+    x < 0 || x >= width || y < 0 || y >= height ? -1 : labels[y * width + x];
+
+  // Collect boundary edges. Each edge runs counter-clockwise around its pixel,
+  // so the region is always on its left.
+  const edgeStart: number[] = [];
+  const edgeDir: number[] = [];
+  const edgePixel: number[] = [];
+  const edgeNeighbor: number[] = [];
+
+  for (let py = 0; py < height; py++) {
+    const yBottom = height - 1 - py;
+    for (let px = 0; px < width; px++) {
+      const label = labels[py * width + px];
+      if (label < 0) continue;
+      const pixel = py * width + px;
+
+      const below = labelAt(px, py + 1);
+      const right = labelAt(px + 1, py);
+      const above = labelAt(px, py - 1);
+      const left = labelAt(px - 1, py);
+
+      if (below !== label) {
+        edgeStart.push(yBottom * stride + px);
+        edgeDir.push(0);
+        edgePixel.push(pixel);
+        edgeNeighbor.push(below);
+      }
+      if (right !== label) {
+        edgeStart.push(yBottom * stride + px + 1);
+        edgeDir.push(1);
+        edgePixel.push(pixel);
+        edgeNeighbor.push(right);
+      }
+      if (above !== label) {
+        edgeStart.push((yBottom + 1) * stride + px + 1);
+        edgeDir.push(2);
+        edgePixel.push(pixel);
+        edgeNeighbor.push(above);
+      }
+      if (left !== label) {
+        edgeStart.push((yBottom + 1) * stride + px);
+        edgeDir.push(3);
+        edgePixel.push(pixel);
+        edgeNeighbor.push(left);
+      }
+    }
+  }
+
+  // Index edges by start vertex
+  const edgeCount = edgeStart.length;
+  const offsets = new Int32Array(vertexCount + 1);
+  for (let e = 0; e < edgeCount; e++) offsets[edgeStart[e] + 1]++;
+  for (let v = 0; v < vertexCount; v++) offsets[v + 1] += offsets[v];
+  const fill = offsets.slice(0, vertexCount);
+  const outgoing = new Int32Array(edgeCount);
+  for (let e = 0; e < edgeCount; e++) outgoing[fill[edgeStart[e]]++] = e;
+
+  const visited = new Uint8Array(edgeCount);
+  const regions = new Map<number, RegionPolygon>();
+  const holesByComponent = new Map<number, Point2D[][]>();
+
+  for (let first = 0; first < edgeCount; first++) {
+    if (visited[first]) continue;
+
+    const label = labels[edgePixel[first]];
+    const loopEdges: number[] = [];
+    let edge = first;
+
+    // Walk the loop, preferring left turns so diagonal pinch points stay separated
+    while (true) {
+      visited[edge] = 1;
+      loopEdges.push(edge);
+
+      const dir = edgeDir[edge];
+      const end = edgeStart[edge] + DX[dir] + DY[dir] * stride;
+      let next = -1;
+
+      for (const turn of [1, 0, 3]) {
+        const wanted = (dir + turn) % 4;
+        for (let k = offsets[end]; k < offsets[end + 1]; k++) {
+          const candidate = outgoing[k];
+          if (
+            edgeDir[candidate] === wanted &&
+            labels[edgePixel[candidate]] === label &&
+            (!visited[candidate] || candidate === first)
+          ) {
+            next = candidate;
+            break;
+          }
+        }
+        if (next >= 0) break;
+      }
+
+      if (next < 0 || next === first) break;
+      edge = next;
+    }
+
+    // Keep only the corners of the loop (and junctions with other regions if requested)
+    const ring: Point2D[] = [];
+    for (let k = 0; k < loopEdges.length; k++) {
+      const e = loopEdges[k];
+      const previous = loopEdges[(k + loopEdges.length - 1) % loopEdges.length];
+      if (
+        edgeDir[e] !== edgeDir[previous] ||
+        (preserveJunctions && edgeNeighbor[e] !== edgeNeighbor[previous])
+      ) {
+        ring.push({ x: edgeStart[e] % stride, y: Math.floor(edgeStart[e] / stride) });
+      }
+    }
+
+    const component = components[edgePixel[first]];
+    if (ringArea(ring) > 0) {
+      regions.set(component, { label, outer: ring, holes: [] });
+    } else {
+      if (!holesByComponent.has(component)) holesByComponent.set(component, []);
+      holesByComponent.get(component)!.push(ring);
+    }
+  }
+
+  for (const [component, holes] of holesByComponent) {
+    const region = regions.get(component);
+    if (region) region.holes.push(...holes);
+  }
+
+  return Array.from(regions.values());
+}
+
+// Twice the signed area of a ring (positive for counter-clockwise)
+function ringArea(ring: Point2D[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j].x * ring[i].y - ring[i].x * ring[j].y;
+  }
+  return sum;
+}
+
+// Extrude polygons into closed prisms between zBottom and zTop, appending to mesh.
+// Top, bottom and side walls share vertices, so every polygon becomes a watertight shell.
+export function extrudePolygons(
+  polygons: RegionPolygon[],
+  zBottom: number,
+  zTop: number,
+  scale: number,
+  mesh: MeshObject = { vertices: [], triangles: [] }
+): MeshObject {
+  for (const polygon of polygons) {
+    const rings = [polygon.outer, ...polygon.holes];
+    const coords: number[] = [];
+    const holeIndices: number[] = [];
+
+    for (const ring of rings) {
+      if (ring !== polygon.outer) holeIndices.push(coords.length / 2);
+      for (const p of ring) coords.push(p.x, p.y);
+    }
+
+    const count = coords.length / 2;
+    const top = mesh.vertices.length;
+    const bottom = top + count;
+
+    for (let i = 0; i < count; i++) {
+      mesh.vertices.push({ x: coords[i * 2] * scale, y: coords[i * 2 + 1] * scale, z: zTop });
+    }
+    for (let i = 0; i < count; i++) {
+      mesh.vertices.push({ x: coords[i * 2] * scale, y: coords[i * 2 + 1] * scale, z: zBottom });
+    }
+
+    // Top and bottom faces
+    const indices = triangulate(coords, holeIndices);
+    for (let t = 0; t < indices.length; t += 3) {
+      let a = indices[t];
+      let b = indices[t + 1];
+      let c = indices[t + 2];
+
+      // Make every face counter-clockwise when seen from above
+      const cross =
+        (coords[b * 2] - coords[a * 2]) * (coords[c * 2 + 1] - coords[a * 2 + 1]) -
+        (coords[b * 2 + 1] - coords[a * 2 + 1]) * (coords[c * 2] - coords[a * 2]);
+      if (cross < 0) [b, c] = [c, b];
+
+      mesh.triangles.push({ v1: top + a, v2: top + b, v3: top + c });
+      mesh.triangles.push({ v1: bottom + a, v2: bottom + c, v3: bottom + b });
+    }
+
+    // Side walls; the region is on the left of every ring edge, so walls face right
+    let ringStart = 0;
+    for (const ring of rings) {
+      for (let k = 0; k < ring.length; k++) {
+        const a = ringStart + k;
+        const b = ringStart + ((k + 1) % ring.length);
+        mesh.triangles.push({ v1: bottom + a, v2: bottom + b, v3: top + b });
+        mesh.triangles.push({ v1: bottom + a, v2: top + b, v3: top + a });
+      }
+      ringStart += ring.length;
+    }
+  }
+
+  return mesh;
+}
+
+// Trace a label grid as one shared planar partition and group the regions by label.
+// Borders between labels are identical polylines on both sides, so meshes built from
+// these regions neither overlap nor leave gaps between neighbouring colors.
+export function tracePartition(grid: LabelGrid): Map<number, RegionPolygon[]> {
+  const byLabel = new Map<number, RegionPolygon[]>();
+
+  for (const region of traceRegions(grid, true)) {
+    if (!byLabel.has(region.label)) byLabel.set(region.label, []);
+    byLabel.get(region.label)!.push(region);
+  }
+
+  return byLabel;
+}
+
+// Vertical extent of the solid over the pixels of a label, in mm
+export interface LabelSpan {
+  bottom: number;
+  top: number;
+}
+
+// Pixel in each quadrant around a corner, counter-clockwise from the top right, as offsets
+// from the corner in y-up pixel coordinates
+const QX = [0, -1, -1, 0];
+const QY = [0, 0, -1, -1];
+
+// Mesh a label grid as one solid whose extent varies by label: every pixel is filled between
+// its label's bottom and top. Walls only cover the heights where one side is solid and the
+// other isn't, and are split wherever another wall or face meets them, so the whole grid
+// becomes one watertight shell instead of stacked prisms with coincident faces. Solids that
+// only touch along an edge get their own vertices there.
+export function extrudeSteps(grid: LabelGrid, spans: Map<number, LabelSpan>, scale: number): MeshObject {
+  const { width, height, labels } = grid;
+  const mesh: MeshObject = { vertices: [], triangles: [] };
+
+  // Span of the pixel in column x and row y counted from the bottom
+  const spanAt = (x: number, y: number): LabelSpan | undefined =>
+    x < 0 || x >= width || y < 0 || y >= height ? undefined : spans.get(labels[(height - 1 - y) * width + x]);
+  const cornerSpans = (x: number, y: number) => QX.map((dx, q) => spanAt(x + dx, y + QY[q]));
+
+  // Vertices are shared by everything meeting at a point, unless the solid around it is
+  // split: then each connected part of the 8 cells around the point (4 quadrants, below
+  // and above) gets its own vertex. The vertex is the one of the part the pixel of
+  // quadrant q belongs to.
+  const vertexIds = new Map<string, number>();
+  const vertex = (x: number, y: number, z: number, q: number): number => {
+    const around = cornerSpans(x, y);
+    const solid = (cell: number) => {
+      const span = around[cell >> 1];
+      return span !== undefined && (cell & 1 ? span.bottom <= z && z < span.top : span.bottom < z && z <= span.top);
+    };
+
+    const start = solid(q * 2) ? q * 2 : q * 2 + 1;
+    let part = 1 << start;
+    const queue = [start];
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const quadrant = cell >> 1;
+      for (const next of [cell ^ 1, ((quadrant + 1) % 4) * 2 + (cell & 1), ((quadrant + 3) % 4) * 2 + (cell & 1)]) {
+        if (!(part & (1 << next)) && solid(next)) {
+          part |= 1 << next;
+          queue.push(next);
+        }
+      }
+    }
+
+    const key = `${x},${y},${z},${part}`;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = mesh.vertices.length;
+      mesh.vertices.push({ x: x * scale, y: y * scale, z });
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  // Heights at a corner where a face or wall may end
+  const breaks = (x: number, y: number): number[] => {
+    const heights = new Set<number>();
+    for (const span of cornerSpans(x, y)) {
+      if (span) heights.add(span.bottom).add(span.top);
+    }
+    return Array.from(heights).sort((a, b) => a - b);
+  };
+
+  for (const polygon of traceRegions(grid, true)) {
+    const span = spans.get(polygon.label);
+    if (!span) continue;
+
+    const rings = [polygon.outer, ...polygon.holes];
+    const coords: number[] = [];
+    const holeIndices: number[] = [];
+    const top: number[] = [];
+    const bottom: number[] = [];
+
+    for (const ring of rings) {
+      if (ring !== polygon.outer) holeIndices.push(coords.length / 2);
+      ring.forEach((p, k) => {
+        // The region is on the left of every ring edge, so the pixel left of the edge leaving
+        // a point is the region's
+        const q = edgeDirection(p, ring[(k + 1) % ring.length]);
+        coords.push(p.x, p.y);
+        top.push(vertex(p.x, p.y, span.top, q));
+        bottom.push(vertex(p.x, p.y, span.bottom, q));
+      });
+    }
+
+    // Top and bottom faces, counter-clockwise when seen from above and below
+    const indices = triangulate(coords, holeIndices);
+    for (let t = 0; t < indices.length; t += 3) {
+      let a = indices[t];
+      let b = indices[t + 1];
+      let c = indices[t + 2];
+      const cross =
+        (coords[b * 2] - coords[a * 2]) * (coords[c * 2 + 1] - coords[a * 2 + 1]) -
+        (coords[b * 2 + 1] - coords[a * 2 + 1]) * (coords[c * 2] - coords[a * 2]);
+      if (cross < 0) [b, c] = [c, b];
+
+      mesh.triangles.push({ v1: top[a], v2: top[b], v3: top[c] });
+      mesh.triangles.push({ v1: bottom[a], v2: bottom[c], v3: bottom[b] });
+    }
+
+    // Walls facing right of every ring edge, where the neighbour there isn't solid
+    for (const ring of rings) {
+      ring.forEach((a, k) => {
+        const b = ring[(k + 1) % ring.length];
+        const dir = edgeDirection(a, b);
+        const neighbour = spanAt(a.x + QX[(dir + 3) % 4], a.y + QY[(dir + 3) % 4]);
+
+        const pieces: [number, number][] = [];
+        if (!neighbour || neighbour.top <= span.bottom || neighbour.bottom >= span.top) {
+          pieces.push([span.bottom, span.top]);
+        } else {
+          if (neighbour.bottom > span.bottom) pieces.push([span.bottom, neighbour.bottom]);
+          if (neighbour.top < span.top) pieces.push([neighbour.top, span.top]);
+        }
+
+        for (const [low, high] of pieces) {
+          // Heights along both vertical edges, zipped into triangles that each touch both
+          const along = (p: Point2D) => [low, ...breaks(p.x, p.y).filter((z) => z > low && z < high), high];
+          const leftZ = along(a);
+          const rightZ = along(b);
+          const left = leftZ.map((z) => vertex(a.x, a.y, z, dir));
+          const right = rightZ.map((z) => vertex(b.x, b.y, z, (dir + 1) % 4));
+
+          let i = 0;
+          let j = 0;
+          while (i < left.length - 1 || j < right.length - 1) {
+            if (j < right.length - 1 && (i === left.length - 1 || rightZ[j + 1] <= leftZ[i + 1])) {
+              mesh.triangles.push({ v1: left[i], v2: right[j], v3: right[j + 1] });
+              j++;
+            } else {
+              mesh.triangles.push({ v1: left[i], v2: right[j], v3: left[i + 1] });
+              i++;
+            }
+          }
+        }
+      });
+    }
+  }
+
+  return mesh;
+}
+
+// Direction (index into DX/DY) of an axis-aligned edge
+function edgeDirection(a: Point2D, b: Point2D): number {
+  if (b.x > a.x) return 0;
+  if (b.y > a.y) return 1;
+  return b.x < a.x ? 2 : 3;
+}
+
+// Combine several meshes into one object (shells are kept as they are)
+export function mergeMeshes(meshes: MeshObject[]): MeshObject {
+  const merged: MeshObject = { vertices: [], triangles: [] };
+
+  for (const mesh of meshes) {
+    const base = merged.vertices.length;
+    for (const vertex of mesh.vertices) {
+      merged.vertices.push(vertex);
+    }
+    for (const t of mesh.triangles) {
+      merged.triangles.push({ v1: t.v1 + base, v2: t.v2 + base, v3: t.v3 + base });
+    }
+  }
+
+  return merged;
+}
+
+// Move a mesh up by zOffset, in place
+export function translateMesh(mesh: MeshObject, zOffset: number): MeshObject {
+  if (zOffset !== 0) {
+    for (const vertex of mesh.vertices) {
+      vertex.z += zOffset;
+    }
+  }
+  return mesh;
+}
+
+// Build an extruded mesh for a monochrome mask without any external tools.
+// Produces the same footprint and scaling as the OpenSCAD backend.
+export function createMeshNative(mask: any, height: number, scale: number): MeshObject {
+  const grid = maskToLabelGrid(mask);
+  const polygons = traceRegions(grid);
+  return extrudePolygons(polygons, 0, height, scale);
+}
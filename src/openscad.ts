@@ -9,14 +9,11 @@ export interface OpenSCADOptions {
   outputPath: string;
   imageWidth: number;
   imageHeight: number;
+  scale: number; // mm per pixel
 }
 
 export function generateOpenSCADScript(options: OpenSCADOptions): string {
-  const { maskPath, height, imageWidth, imageHeight } = options;
-  
-  // Calculate scale so the longest edge is 100mm
-  const longestEdge = Math.max(imageWidth, imageHeight);
-  const scale = 100 / longestEdge;
+  const { maskPath, height, imageWidth, imageHeight, scale } = options;
 
   return `
 // Auto-generated OpenSCAD script for image-to-3MF conversion
@@ -39,7 +36,8 @@ export async function createMeshWithOpenSCAD(
   mask: any,
   height: number,
   outputPath: string,
-  tempDir: string
+  tempDir: string,
+  scale: number
 ): Promise<void> {
   // Convert the mask to a heightmap
   // White pixels (0xFFFFFFFF) should be at the desired height
@@ -54,12 +52,14 @@ export async function createMeshWithOpenSCAD(
   // We need to create a grayscale heightmap
   
   // Save the mask as PNG - it's already a heightmap (white = high, black = low)
-  const maskFilename = `mask_${Date.now()}.png`;
+  // Name the intermediates after the output mesh so calls sharing a temp directory don't collide
+  const baseName = path.basename(outputPath, path.extname(outputPath));
+  const maskFilename = `${baseName}_mask.png`;
   const maskPath = path.resolve(path.join(tempDir, maskFilename));
   await mask.write(maskPath);
 
   // Generate OpenSCAD script
-  const scadFilename = `script_${Date.now()}.scad`;
+  const scadFilename = `${baseName}.scad`;
   const scadPath = path.resolve(path.join(tempDir, scadFilename));
 
   const script = generateOpenSCADScript({
@@ -68,6 +68,7 @@ export async function createMeshWithOpenSCAD(
     outputPath,
     imageWidth: width,
     imageHeight: heightPx,
+    scale,
   });
 
   fs.writeFileSync(scadPath, script, 'utf-8');
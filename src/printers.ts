@@ -0,0 +1,79 @@
+import { ColoredObject } from './3mf';
+
+// Build volume of a printer, in mm
+export interface PrinterProfile {
+  name: string;
+  plateWidth: number;
+  plateDepth: number;
+  maxHeight: number;
+}
+
+// A printer not in the list: its plate size and, optionally, build height
+export interface CustomPrinterConfig {
+  name?: string;
+  width: number;
+  depth: number;
+  height?: number;
+}
+
+export const PRINTER_PROFILES: Record<string, PrinterProfile> = {
+  'a1-mini': { name: 'Bambu Lab A1 mini', plateWidth: 180, plateDepth: 180, maxHeight: 180 },
+  a1: { name: 'Bambu Lab A1', plateWidth: 256, plateDepth: 256, maxHeight: 256 },
+  p1p: { name: 'Bambu Lab P1P', plateWidth: 256, plateDepth: 256, maxHeight: 256 },
+  p1s: { name: 'Bambu Lab P1S', plateWidth: 256, plateDepth: 256, maxHeight: 256 },
+  x1c: { name: 'Bambu Lab X1 Carbon', plateWidth: 256, plateDepth: 256, maxHeight: 256 },
+};
+
+// Whether id names one of the profiles, not an inherited property like "constructor"
+export function isPrinterProfile(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PRINTER_PROFILES, id);
+}
+
+// Printer used when the config does not select one
+export const DEFAULT_PRINTER = 'x1c';
+
+// Custom printers without a height are checked against this
+const DEFAULT_MAX_HEIGHT = 250;
+
+export function resolvePrinter(printer: string | CustomPrinterConfig | undefined): PrinterProfile {
+  if (printer === undefined) return PRINTER_PROFILES[DEFAULT_PRINTER];
+  if (typeof printer === 'string') {
+    if (!isPrinterProfile(printer)) {
+      throw new Error(`Unknown printer "${printer}" (expected ${Object.keys(PRINTER_PROFILES).join(', ')} or a custom size)`);
+    }
+    return PRINTER_PROFILES[printer];
+  }
+
+  return {
+    name: printer.name ?? `custom ${printer.width} x ${printer.depth}mm printer`,
+    plateWidth: printer.width,
+    plateDepth: printer.depth,
+    maxHeight: printer.height ?? DEFAULT_MAX_HEIGHT,
+  };
+}
+
+// Fail early when the design's footprint is larger than the plate
+export function checkFootprint(printer: PrinterProfile, widthMm: number, depthMm: number): void {
+  if (widthMm > printer.plateWidth || depthMm > printer.plateDepth) {
+    throw new Error(
+      `The design is ${widthMm.toFixed(1)} x ${depthMm.toFixed(1)}mm, which does not fit the ` +
+        `${printer.plateWidth} x ${printer.plateDepth}mm plate of the ${printer.name}. ` +
+        'Reduce "size" in the config or choose a larger printer.'
+    );
+  }
+}
+
+export function checkHeight(printer: PrinterProfile, objects: ColoredObject[]): void {
+  let top = 0;
+  for (const object of objects) {
+    for (const vertex of object.mesh.vertices) {
+      top = Math.max(top, vertex.z);
+    }
+  }
+
+  if (top > printer.maxHeight) {
+    throw new Error(
+      `The design is ${top.toFixed(1)}mm tall, more than the ${printer.maxHeight}mm build height of the ${printer.name}.`
+    );
+  }
+}
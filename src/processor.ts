@@ -1,43 +1,364 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { processImage, createColorMask, createBackplaneMask } from './image-processor';
-import { Config, generateDefaultConfig, writeConfig, readConfig } from './config';
+import {
+  processImage,
+  createColorMask,
+  createBackplaneMask,
+  createSandwichMask,
+  createLabelGrid,
+  suggestBackground,
+  loadLuminance,
+  loadPixelColors,
+  ProcessedImage,
+} from './image-processor';
+import {
+  ColorConfig,
+  Config,
+  ConfigOptions,
+  DEFAULT_COLOR_METRIC,
+  MesherBackend,
+  TilingConfig,
+  generateDefaultConfig,
+  mergeOptions,
+  writeConfig,
+  readConfig,
+} from './config';
 import { createMeshWithOpenSCAD, checkOpenSCADInstalled } from './openscad';
-import { parse3MF, createCombined3MF, ColoredObject } from './3mf';
-import { hexToRgb } from './colors';
+import {
+  LabelSpan,
+  createMeshNative,
+  extrudePolygons,
+  extrudeSteps,
+  footprintGrid,
+  maskToLabelGrid,
+  mergeMeshes,
+  tracePartition,
+  traceRegions,
+  translateMesh,
+} from './mesher';
+import { createCombined3MF, countFilaments, filamentKey, ColoredObject, DesignPlate, MeshObject } from './3mf';
+import { parse3MF } from './3mf-reader';
+import { FilamentColor } from './colors';
+import { computeDimensions } from './dimensions';
+import { checkFootprint, checkHeight, resolvePrinter } from './printers';
+import {
+  DEFAULT_KEY_CLEARANCE,
+  TileKeys,
+  createKeyedBacking,
+  cropImage,
+  keyDepth,
+  meshBounds,
+  planKeys,
+  planTiles,
+} from './tiling';
+import { cleanupFeatures } from './feature-cleanup';
+import { createLithophaneMesh } from './lithophane';
+import { ExportLayout, writeObj, writeScad, writeStlFiles, writeSvgFiles } from './exporters';
+import { ColorChangePlan, describeColorChangePlan, planColorChanges } from './color-change';
+import { assignBlendLevels, BlendFilament, blendLabelGrid, createBlendStack, planBlendSwaps } from './blend';
+import {
+  DEFAULT_FILAMENT_CATALOG,
+  FilamentCatalog,
+  filamentLabel,
+  loadFilamentCatalogs,
+  resolveFilament,
+} from './filaments';
+
+// Turn a mask into an extruded mesh with the selected backend
+async function buildMesh(
+  mask: any,
+  height: number,
+  name: string,
+  mesher: MesherBackend,
+  scale: number,
+  tempDir: string
+): Promise<MeshObject> {
+  if (mesher === 'openscad') {
+    const meshPath = path.join(tempDir, `${name}.3mf`);
+    await createMeshWithOpenSCAD(mask, height, meshPath, tempDir, scale);
+    return await parse3MF(meshPath);
+  }
+
+  return createMeshNative(mask, height, scale);
+}
+
+// Intermediate files live in a unique directory under the system temp directory
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'img-to-3mf-'));
+}
+
+function removeTempDir(tempDir: string, keep: boolean | undefined): void {
+  if (keep) {
+    console.log(`Kept intermediate files in ${tempDir}`);
+    return;
+  }
+  fs.rmSync(tempDir, { recursive: true, force: true });
+}
+
+// Find the catalog entry for a filament named in the config, warning if there is none
+function lookupFilament(
+  name: string,
+  catalogId: string | undefined,
+  catalogs: FilamentCatalog[]
+): FilamentColor | undefined {
+  const filament = resolveFilament(name, catalogId, catalogs);
+  if (!filament) {
+    const where = catalogId ?? catalogs.map((catalog) => catalog.id).join(', ');
+    console.warn(`Warning: filament "${name}" not found in ${where}; it will be exported by name only`);
+  }
+  return filament;
+}
+
+// Image colors printed as one object: they share a filament and a height
+interface ColorLayer {
+  hexColors: string[];
+  colorConfig: ColorConfig;
+  filament?: FilamentColor;
+}
+
+function groupColorLayers(config: Config, catalogs: FilamentCatalog[]): ColorLayer[] {
+  const layers = new Map<string, ColorLayer>();
+
+  for (const [hexColor, colorConfig] of Object.entries(config.colors)) {
+    const filament = lookupFilament(colorConfig.color, colorConfig.catalog, catalogs);
+    const key = `${filament ? filamentLabel(filament) : colorConfig.color}@${colorConfig.height}`;
+    const layer = layers.get(key);
+    if (layer) {
+      layer.hexColors.push(hexColor);
+    } else {
+      layers.set(key, { hexColors: [hexColor], colorConfig, filament });
+    }
+  }
+
+  return Array.from(layers.values());
+}
+
+// AMS slots from the config, keyed like the objects' filaments
+function resolveAmsSlots(
+  coloredObjects: ColoredObject[],
+  config: Config,
+  catalogs: FilamentCatalog[]
+): Record<string, number> | undefined {
+  const amsSlots = config.options.amsSlots;
+  if (!amsSlots) return undefined;
+  if (config.options.colorChange) {
+    console.warn('Warning: amsSlots is ignored when printing on a single extruder (colorChange)');
+    return undefined;
+  }
+
+  const used = new Set(coloredObjects.map(filamentKey));
+  const slots: Record<string, number> = {};
+  for (const [name, slot] of Object.entries(amsSlots)) {
+    const filament = resolveFilament(name, undefined, catalogs);
+    const key = filament ? filamentLabel(filament) : name;
+    if (!used.has(key)) {
+      console.warn(`Warning: amsSlots "${name}" is not used by the design`);
+      continue;
+    }
+    slots[key] = slot;
+  }
+  return slots;
+}
+
+// Date deterministic builds use when no timestamp is given: the earliest a ZIP can store
+const DETERMINISTIC_DATE = '1980-01-01T00:00:00Z';
+
+// Date written into the outputs: the configured timestamp, else SOURCE_DATE_EPOCH (seconds,
+// the reproducible builds convention), else now or in deterministic mode a fixed date
+function outputDate(options: ConfigOptions): Date {
+  if (options.timestamp !== undefined) return new Date(options.timestamp);
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (epoch !== undefined && /^\d+$/.test(epoch)) return new Date(Number(epoch) * 1000);
+  return new Date(options.deterministic ? DETERMINISTIC_DATE : Date.now());
+}
+
+// Write the 3MF and any other selected formats, with a filament change plan when printing
+// on a single extruder. The plan is the given one (blend swaps) or planned from the object
+// heights, and is also written next to the 3MF as text.
+async function writeOutputs(
+  coloredObjects: ColoredObject[],
+  config: Config,
+  catalogs: FilamentCatalog[],
+  outputFilepath: string,
+  layout: ExportLayout,
+  colorChangePlan?: ColorChangePlan,
+  plates?: DesignPlate[]
+): Promise<void> {
+  const basePath = outputFilepath.replace(/\.3mf$/i, '');
+
+  // The finished design must fit the printer it is placed on
+  const printer = resolvePrinter(config.options.printer);
+  for (const plate of plates ?? [{ width: layout.widthMm, height: layout.heightMm }]) {
+    checkFootprint(printer, plate.width, plate.height);
+  }
+  checkHeight(printer, coloredObjects);
+  if (plates && (config.options.outputProfile === 'prusa' || config.options.outputProfile === 'core')) {
+    console.warn(`Warning: the ${config.options.outputProfile} profile has one plate; the tiles are laid out side by side`);
+  }
+
+  let plan = colorChangePlan;
+  if (!plan && config.options.colorChange) {
+    plan = planColorChanges(coloredObjects, config.options.colorChange);
+    for (const change of plan.changes) {
+      if (!change.aligned) {
+        console.warn(
+          `Warning: the ${change.label} band starts at ${change.bandBottom.toFixed(2)}mm, between layers; ` +
+            `it will start at layer ${change.layer} instead. Use heights that are whole layers.`
+        );
+      }
+    }
+  }
+  if (plan) {
+    if (config.options.colorChange && config.options.outputProfile === 'core') {
+      console.warn('Warning: the core profile has no filament changes; only the text plan is written');
+    }
+    const summary = describeColorChangePlan(plan);
+    console.log('Filament changes:');
+    for (const line of summary) {
+      console.log(`  ${line}`);
+    }
+    const summaryPath = basePath + '.color-changes.txt';
+    fs.writeFileSync(summaryPath, summary.join('\n') + '\n', 'utf-8');
+    console.log(`Wrote ${summaryPath}`);
+  }
+
+  const formats = config.options.formats ?? ['3mf'];
+  if (formats.includes('3mf')) {
+    console.log('Combining meshes into final 3MF...');
+    await createCombined3MF(coloredObjects, outputFilepath, layout.widthMm, layout.heightMm, {
+      profile: config.options.outputProfile,
+      colorChangePlan: config.options.colorChange ? plan : undefined,
+      singleObject: config.options.singleObject,
+      slots: resolveAmsSlots(coloredObjects, config, catalogs),
+      name: path.basename(outputFilepath, path.extname(outputFilepath)),
+      printer,
+      plates,
+      metadata: config.options.metadata,
+      date: outputDate(config.options),
+      deterministic: config.options.deterministic,
+    });
+    console.log(`Generated ${outputFilepath}`);
+  }
+
+  // Tiles are exported one by one, each in its own coordinates
+  const parts = plates
+    ? plates.map((plate, p) => ({
+        objects: plate.objects.map((i) => coloredObjects[i]),
+        basePath: `${basePath}-${(plate.name ?? `plate ${p + 1}`).toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      }))
+    : [{ objects: coloredObjects, basePath }];
+  const written: string[] = [];
+  for (const part of parts) {
+    if (formats.includes('stl')) written.push(...writeStlFiles(part.objects, part.basePath));
+    if (formats.includes('obj')) written.push(...writeObj(part.objects, part.basePath));
+  }
+  if (formats.includes('svg')) written.push(...writeSvgFiles(coloredObjects, basePath, layout));
+  if (formats.includes('scad')) written.push(...writeScad(coloredObjects, basePath, layout));
+  for (const filepath of written) {
+    console.log(`Generated ${filepath}`);
+  }
+}
 
 export async function processImageTo3MF(
   imageFilepath: string,
   configFilepath: string,
-  outputFilepath: string
+  outputFilepath: string,
+  overrides: ConfigOptions = {}
 ): Promise<void> {
-  // Check OpenSCAD is installed
-  if (!checkOpenSCADInstalled()) {
+  // Load configuration; command-line options take precedence over the file
+  const config = readConfig(configFilepath);
+  config.options = mergeOptions(config.options, overrides);
+
+  const mesher = config.options.mesher ?? 'native';
+
+  // Check OpenSCAD is installed when it is the selected backend
+  if (mesher === 'openscad' && !checkOpenSCADInstalled()) {
     throw new Error(
-      'OpenSCAD is not installed or not in PATH. Please install OpenSCAD from https://openscad.org/'
+      'OpenSCAD is not installed or not in PATH. Please install OpenSCAD from https://openscad.org/ or use the native mesher'
     );
   }
 
-  // Load configuration
-  const config = readConfig(configFilepath);
+  if (config.options.lithophane) {
+    if (config.options.backing !== undefined || config.options.sandwich !== undefined || config.options.blend) {
+      throw new Error('Cannot combine "lithophane" with "backing", "sandwich" or "blend" mode. Choose one.');
+    }
+    if (config.options.tiling) {
+      throw new Error('Tiling is not available in lithophane mode.');
+    }
+    if (mesher !== 'native') {
+      throw new Error('Lithophane mode requires the native mesher.');
+    }
+    await processLithophane(imageFilepath, config, configFilepath, outputFilepath);
+    return;
+  }
+
+  if (config.options.blend) {
+    if (config.options.backing !== undefined || config.options.sandwich !== undefined) {
+      throw new Error('Cannot combine "blend" with "backing" or "sandwich" mode. Choose one.');
+    }
+    if (config.options.tiling) {
+      throw new Error('Tiling is not available in blend mode.');
+    }
+    if (mesher !== 'native') {
+      throw new Error('Blend mode requires the native mesher.');
+    }
+    await processBlend(imageFilepath, config, configFilepath, outputFilepath);
+    return;
+  }
+
+  const sharedMeshing = config.options.meshing === 'shared';
+  if (sharedMeshing && mesher !== 'native') {
+    throw new Error('Shared meshing requires the native mesher.');
+  }
+
+  // Load the selected filament catalogs plus any catalog a color was picked from
+  const catalogIds = new Set(config.options.filaments ?? [DEFAULT_FILAMENT_CATALOG]);
+  for (const colorConfig of Object.values(config.colors)) {
+    if (colorConfig.catalog) catalogIds.add(colorConfig.catalog);
+  }
+  const catalogs = loadFilamentCatalogs(Array.from(catalogIds), path.dirname(configFilepath));
 
   // Process the image
   console.log('Processing image...');
-  const processedImage = await processImage(imageFilepath);
+  const processedImage = await processImage(imageFilepath, config.options);
 
-  // Create temporary directory for intermediate files
-  const tempDir = path.join(path.dirname(outputFilepath), `temp_${Date.now()}`);
-  fs.mkdirSync(tempDir, { recursive: true });
+  // Config colors are keys into the image palette; they go stale if quantization changes
+  const staleColors = Object.keys(config.colors).filter((hexColor) => !processedImage.modalColors.includes(hexColor));
+  if (staleColors.length > 0) {
+    console.warn(
+      `Warning: ${staleColors.join(', ')} not found in the image palette (${processedImage.modalColors.join(', ')}). ` +
+        'If the quantize settings changed, delete the config to regenerate it.'
+    );
+  }
+
+  // Calculate image dimensions in mm from the size options
+  const dimensions = computeDimensions(config.options.size, processedImage.width, processedImage.height);
+  const scale = dimensions.scale;
+  const imageWidthMm = dimensions.widthMm;
+  const imageHeightMm = dimensions.heightMm;
+  console.log(
+    `Output size: ${imageWidthMm.toFixed(1)} x ${imageHeightMm.toFixed(1)}mm (${scale.toFixed(4)}mm per pixel)`
+  );
+  if (!config.options.tiling) {
+    checkFootprint(resolvePrinter(config.options.printer), dimensions.totalWidthMm, dimensions.totalHeightMm);
+  }
 
-  // Calculate image dimensions in mm (scale so longest edge is 100mm)
-  const scale = 100 / Math.max(processedImage.width, processedImage.height);
-  const imageWidthMm = processedImage.width * scale;
-  const imageHeightMm = processedImage.height * scale;
+  // Hand features too small for the nozzle to their neighbors before any mask is built
+  if (config.options.cleanup) {
+    console.log('Cleaning up features too small to print...');
+    const reassigned = cleanupFeatures(processedImage, config.options.cleanup, scale);
+    if (reassigned.size === 0) {
+      console.log('  Nothing to clean up');
+    }
+    for (const [color, count] of reassigned) {
+      console.log(`  ${color}: ${count} pixels reassigned to neighboring colors`);
+    }
+  }
 
+  // Create temporary directory for intermediate files
+  const tempDir = createTempDir();
   try {
-    const coloredObjects: ColoredObject[] = [];
-    const debugScadParts: string[] = [];
-
     // Determine color modality mode
     const hasBackingMode = config.options.backing !== undefined;
     const hasSandwichMode = config.options.sandwich !== undefined;
@@ -46,149 +367,405 @@ export async function processImageTo3MF(
       throw new Error('Cannot specify both "backing" and "sandwich" modes. Choose one or neither.');
     }
 
-    // Process backing layer if in backing mode
-    if (hasBackingMode) {
-      console.log('Generating backing layer...');
-      const backingMask = await createBackplaneMask(processedImage);
-      const backing3mfPath = path.join(tempDir, 'backing.3mf');
-
-      await createMeshWithOpenSCAD(
-        backingMask,
-        config.options.backing!.thickness,
-        backing3mfPath,
+    // Image colors that share a filament and height are printed as one object
+    const layers = groupColorLayers(config, catalogs);
+
+    let coloredObjects: ColoredObject[];
+    let plates: DesignPlate[] | undefined;
+    if (config.options.tiling) {
+      ({ coloredObjects, plates } = await buildTiles(processedImage, config, layers, catalogs, scale, tempDir));
+    } else {
+      coloredObjects = await buildColoredObjects(processedImage, config, layers, catalogs, scale, tempDir);
+    }
+
+    // Backing and sandwich filaments take a slot too, unless they match a color
+    const maxFilaments = config.options.maxFilaments;
+    const filamentCount = countFilaments(coloredObjects);
+    if (maxFilaments !== undefined && filamentCount > maxFilaments) {
+      console.warn(`Warning: the design uses ${filamentCount} filaments, more than maxFilaments (${maxFilaments})`);
+    }
+
+    // Combine all meshes into a single 3MF file, plus any other formats
+    await writeOutputs(
+      coloredObjects,
+      config,
+      catalogs,
+      outputFilepath,
+      { widthMm: imageWidthMm, heightMm: imageHeightMm, scale },
+      undefined,
+      plates
+    );
+  } finally {
+    // Clean up temporary directory
+    removeTempDir(tempDir, config.options.keepTemp);
+  }
+}
+
+// Meshes of every color, plus the backing or sandwich plane, of an image or of one tile of
+// it. Keys are cut into the backing of a tile.
+async function buildColoredObjects(
+  processedImage: ProcessedImage,
+  config: Config,
+  layers: ColorLayer[],
+  catalogs: FilamentCatalog[],
+  scale: number,
+  tempDir: string,
+  keys?: TileKeys
+): Promise<ColoredObject[]> {
+  const mesher = config.options.mesher ?? 'native';
+  const sharedMeshing = config.options.meshing === 'shared';
+  const hasBackingMode = config.options.backing !== undefined;
+  const hasSandwichMode = config.options.sandwich !== undefined;
+  const coloredObjects: ColoredObject[] = [];
+
+  // In shared mode every color is cut from one partition of the image.
+  // In sandwich mode the uncolored part of the plane gets its own label after the colors.
+  const planeLabel = layers.length;
+  const labelGrid = sharedMeshing
+    ? createLabelGrid(
+        processedImage,
+        layers.map((layer) => layer.hexColors),
+        hasSandwichMode ? planeLabel : undefined
+      )
+    : undefined;
+  const partition = labelGrid ? tracePartition(labelGrid) : undefined;
+
+  // Process backing layer if in backing mode
+  if (hasBackingMode) {
+    console.log('Generating backing layer...');
+    const backingFilament = lookupFilament(config.options.backing!.color, undefined, catalogs);
+    const thickness = config.options.backing!.thickness;
+    let backingMesh: MeshObject;
+    if (keys) {
+      // Tiles cut the keys into the backing
+      const footprint = labelGrid ? footprintGrid(labelGrid) : maskToLabelGrid(await createBackplaneMask(processedImage));
+      const clearance = config.options.tiling?.clearance ?? DEFAULT_KEY_CLEARANCE;
+      backingMesh = createKeyedBacking(footprint, keys, thickness, clearance, scale);
+    } else if (labelGrid) {
+      backingMesh = extrudePolygons(traceRegions(footprintGrid(labelGrid)), 0, thickness, scale);
+    } else {
+      backingMesh = await buildMesh(
+        await createBackplaneMask(processedImage),
+        thickness,
+        'backing',
+        mesher,
+        scale,
         tempDir
       );
+    }
 
-      const backingMesh = await parse3MF(backing3mfPath);
+    coloredObjects.push({
+      mesh: backingMesh,
+      color: backingFilament?.hex ?? '#000000',
+      filamentName: config.options.backing!.color,
+      filament: backingFilament,
+    });
+  }
 
-      coloredObjects.push({
-        mesh: backingMesh,
-        color: '#000000',
-        filamentName: config.options.backing!.color,
-      });
+  // In sandwich mode the plane is assembled from the uncolored area plus
+  // filler above or below every color that is thinner than the plane
+  const sandwichThickness = config.options.sandwich?.thickness ?? 0;
+  const sandwichFill = config.options.sandwich?.fill ?? 'above';
+  const sandwichParts: MeshObject[] = [];
+  const colorMasks: any[] = [];
+
+  // Process each color in order, ensuring no pixel overlap
+  const usedPixels = new Uint8Array(processedImage.width * processedImage.height);
+  let colorIndex = 0;
+  for (const { hexColors, colorConfig, filament } of layers) {
+    const hexColor = hexColors[0];
+    console.log(
+      `Generating mesh for color ${hexColors.join(', ')} (${filament ? filamentLabel(filament) : colorConfig.color})...`
+    );
 
-      debugScadParts.push(`// Backing layer (${config.options.backing!.color})
-color([0, 0, 0]) translate([0, 0, 0])
-  surface(file = "backing_mask.png", center = false, invert = true);
-`);
+    // Calculate z-offset and height based on mode
+    let zOffset = 0;
+    let colorHeight = colorConfig.height;
+    
+    if (hasBackingMode) {
+      // In backing mode, colors sit on top of the backing
+      zOffset = config.options.backing!.thickness;
+    } else if (hasSandwichMode) {
+      // In sandwich mode, colors are embedded within the sandwich thickness
+      // Colors should not exceed sandwich thickness
+      if (colorConfig.height > sandwichThickness) {
+        console.warn(`Warning: Color ${hexColors.join(', ')} height (${colorConfig.height}mm) exceeds sandwich thickness (${sandwichThickness}mm). Clamping to sandwich thickness.`);
+        colorHeight = sandwichThickness;
+      }
+      // Filling below pushes the color up so it is flush with the top of the plane
+      zOffset = sandwichFill === 'below' ? sandwichThickness - colorHeight : 0;
     }
 
-    // Process sandwich layer if in sandwich mode
+    // Independent masks exclude pixels already used by previous colors
+    const mask = partition ? undefined : await createColorMask(processedImage, hexColors, usedPixels);
+    const meshRange = async (zBottom: number, zTop: number, name: string): Promise<MeshObject> => {
+      if (partition) {
+        return extrudePolygons(partition.get(colorIndex) ?? [], zBottom, zTop, scale);
+      }
+      const mesh = await buildMesh(mask, zTop - zBottom, name, mesher, scale, tempDir);
+      return translateMesh(mesh, zBottom);
+    };
+
+    // Generate the mesh for this color at its z-offset
+    const mesh = await meshRange(zOffset, zOffset + colorHeight, `color_${hexColor.replace('#', '')}`);
+
     if (hasSandwichMode) {
-      console.log('Generating sandwich layer...');
-      const sandwichMask = await createBackplaneMask(processedImage);
-      const sandwich3mfPath = path.join(tempDir, 'sandwich.3mf');
-
-      await createMeshWithOpenSCAD(
-        sandwichMask,
-        config.options.sandwich!.thickness,
-        sandwich3mfPath,
-        tempDir
-      );
+      if (mask) colorMasks.push(mask);
+      if (colorHeight < sandwichThickness) {
+        const fillBottom = sandwichFill === 'below' ? 0 : colorHeight;
+        const fillTop = fillBottom + sandwichThickness - colorHeight;
+        sandwichParts.push(await meshRange(fillBottom, fillTop, `sandwich_fill_${hexColor.replace('#', '')}`));
+      }
+    }
+
+    // Cleanup can hand every pixel of a color to its neighbors
+    if (mesh.triangles.length === 0) {
+      console.log(`Color ${hexColors.join(', ')} has no printable area left, skipping it`);
+      colorIndex++;
+      continue;
+    }
+
+    coloredObjects.push({
+      mesh,
+      color: hexColor,
+      filamentName: colorConfig.color,
+      filament,
+    });
+
+    colorIndex++;
+  }
 
-      const sandwichMesh = await parse3MF(sandwich3mfPath);
+  // Process sandwich layer if in sandwich mode: the plane with every color cut out
+  if (hasSandwichMode) {
+    console.log('Generating sandwich layer...');
+    const planeMesh = partition
+      ? extrudePolygons(partition.get(planeLabel) ?? [], 0, sandwichThickness, scale)
+      : await buildMesh(
+          await createSandwichMask(processedImage, colorMasks),
+          sandwichThickness,
+          'sandwich',
+          mesher,
+          scale,
+          tempDir
+        );
+    const sandwichMesh = mergeMeshes([planeMesh, ...sandwichParts]);
 
-      coloredObjects.push({
+    if (sandwichMesh.triangles.length === 0) {
+      console.log('Sandwich plane is fully covered by colors, skipping it');
+    } else {
+      const sandwichFilament = lookupFilament(config.options.sandwich!.color, undefined, catalogs);
+      coloredObjects.unshift({
         mesh: sandwichMesh,
-        color: '#000000',
+        color: sandwichFilament?.hex ?? '#000000',
         filamentName: config.options.sandwich!.color,
+        filament: sandwichFilament,
       });
+    }
+  }
 
-      debugScadParts.push(`// Sandwich layer (${config.options.sandwich!.color})
-color([0, 0, 0]) translate([0, 0, 0])
-  surface(file = "sandwich_mask.png", center = false, invert = true);
-`);
-    }
-
-    // Process each color in order, ensuring no pixel overlap
-    const usedPixels = new Set<string>();
-    let colorIndex = 0;
-    for (const [hexColor, colorConfig] of Object.entries(config.colors)) {
-      console.log(`Generating mesh for color ${hexColor} (${colorConfig.color})...`);
-
-      // Create color mask, excluding pixels already used by previous colors
-      const mask = await createColorMask(processedImage, hexColor, usedPixels);
-
-      // Calculate z-offset and height based on mode
-      let zOffset = 0;
-      let colorHeight = colorConfig.height;
-      
-      if (hasBackingMode) {
-        // In backing mode, colors sit on top of the backing
-        zOffset = config.options.backing!.thickness;
-      } else if (hasSandwichMode) {
-        // In sandwich mode, colors are embedded within the sandwich thickness
-        // Colors should not exceed sandwich thickness
-        const sandwichThickness = config.options.sandwich!.thickness;
-        if (colorConfig.height > sandwichThickness) {
-          console.warn(`Warning: Color ${hexColor} height (${colorConfig.height}mm) exceeds sandwich thickness (${sandwichThickness}mm). Clamping to sandwich thickness.`);
-          colorHeight = sandwichThickness;
-        }
-        zOffset = 0;
-      }
-      
-      // Generate 3MF for this color using OpenSCAD
-      const color3mfPath = path.join(tempDir, `color_${hexColor.replace('#', '')}.3mf`);
-
-      await createMeshWithOpenSCAD(mask, colorHeight, color3mfPath, tempDir);
-
-      // Parse the generated 3MF and adjust z-offset if needed
-      const mesh = await parse3MF(color3mfPath);
-      
-      // Apply z-offset to mesh vertices if in backing mode
-      if (hasBackingMode && zOffset !== 0) {
-        // Offset all vertices by the backing thickness
-        for (const vertex of mesh.vertices) {
-          vertex.z += zOffset;
-        }
-      }
+  return coloredObjects;
+}
 
-      coloredObjects.push({
-        mesh,
-        color: hexColor,
-        filamentName: colorConfig.color,
-      });
+// Tiling: the image is split into tiles that fit the plate, each meshed on its own and
+// printed on its own plate. In backing mode neighbouring tiles are keyed together.
+async function buildTiles(
+  processedImage: ProcessedImage,
+  config: Config,
+  layers: ColorLayer[],
+  catalogs: FilamentCatalog[],
+  scale: number,
+  tempDir: string
+): Promise<{ coloredObjects: ColoredObject[]; plates: DesignPlate[] }> {
+  const backing = config.options.backing;
+  const tiling: TilingConfig = {
+    ...config.options.tiling,
+    keys: config.options.tiling?.keys ?? (backing ? 'pegs' : 'none'),
+  };
 
-      // Add to debug SCAD
-      const rgb = hexToRgb(hexColor);
-      debugScadParts.push(`// ${colorConfig.color} (${hexColor})
-color([${rgb.r / 255}, ${rgb.g / 255}, ${rgb.b / 255}]) translate([0, 0, ${zOffset}])
-  surface(file = "color_${hexColor.replace('#', '')}_mask.png", center = false, invert = true);
-`);
-      colorIndex++;
+  const unsupported = (config.options.formats ?? []).filter((format) => format === 'svg' || format === 'scad');
+  if (unsupported.length > 0) {
+    throw new Error(`The ${unsupported.join(' and ')} format cannot be combined with tiling.`);
+  }
+  if (tiling.keys !== 'none') {
+    if (!backing) {
+      throw new Error('Tile keys are cut into the backing: set "backing" or use "keys": "none".');
+    }
+    if ((config.options.mesher ?? 'native') !== 'native') {
+      throw new Error('Tile keys require the native mesher.');
     }
+    const clearance = tiling.clearance ?? DEFAULT_KEY_CLEARANCE;
+    if (backing.thickness <= 2 * clearance) {
+      throw new Error(`Tile keys need a backing thicker than twice their clearance (${2 * clearance}mm).`);
+    }
+  }
 
-    // Create debug.scad file
-    const debugScadPath = path.join(path.dirname(outputFilepath), 'debug.scad');
-    const debugScad = `// Debug visualization of all color masks
-// This shows how all the color layers are positioned
+  const printer = resolvePrinter(config.options.printer);
+  const reach = tiling.keys === 'none' ? 0 : keyDepth(tiling);
+  const grid = planTiles(processedImage.width, processedImage.height, scale, printer, reach);
+  console.log(`Splitting the design into ${grid.columns} x ${grid.rows} tiles for the ${printer.name}...`);
+  const keys = tiling.keys === 'none' ? undefined : planKeys(grid, processedImage, scale, tiling);
+  if (keys) {
+    const count = keys.reduce((sum, tile) => sum + tile.tabs.length, 0);
+    console.log(`Keying the tiles together with ${count} ${tiling.keys === 'dovetail' ? 'dovetails' : 'pegs'}`);
+  }
 
-${debugScadParts.join('\n')}
-`;
-    fs.writeFileSync(debugScadPath, debugScad, 'utf-8');
-    console.log(`Generated ${debugScadPath} for debugging`);
+  const coloredObjects: ColoredObject[] = [];
+  const plates: DesignPlate[] = [];
+  for (let t = 0; t < grid.tiles.length; t++) {
+    const tile = grid.tiles[t];
+    const name = `Tile ${tile.row + 1}-${tile.column + 1}`;
+    console.log(`${name}:`);
 
-    // Combine all meshes into a single 3MF file
-    console.log('Combining meshes into final 3MF...');
-    await createCombined3MF(coloredObjects, outputFilepath, imageWidthMm, imageHeightMm);
+    const objects = (
+      await buildColoredObjects(cropImage(processedImage, tile), config, layers, catalogs, scale, tempDir, keys?.[t])
+    ).filter((object) => object.mesh.triangles.length > 0);
+    if (objects.length === 0) {
+      console.log(`${name} is empty, skipping it`);
+      continue;
+    }
 
-    console.log(`Generated ${outputFilepath}`);
-  } finally {
-    // Clean up temporary directory
-    if (fs.existsSync(tempDir)) {
-      // fs.rmSync(tempDir, { recursive: true, force: true });
+    plates.push({
+      name,
+      objects: objects.map((_, i) => coloredObjects.length + i),
+      ...meshBounds(objects.map((object) => object.mesh)),
+    });
+    coloredObjects.push(...objects);
+  }
+
+  return { coloredObjects, plates };
+}
+
+// Lithophane mode: a single panel whose thickness follows the image brightness
+async function processLithophane(
+  imageFilepath: string,
+  config: Config,
+  configFilepath: string,
+  outputFilepath: string
+): Promise<void> {
+  const lithophane = config.options.lithophane!;
+  const catalogs = loadFilamentCatalogs(config.options.filaments, path.dirname(configFilepath));
+
+  console.log('Processing image...');
+  const { width, height, luminance } = await loadLuminance(imageFilepath);
+
+  const dimensions = computeDimensions(config.options.size, width, height);
+  const scale = dimensions.scale;
+  console.log(
+    `Output size: ${dimensions.widthMm.toFixed(1)} x ${dimensions.heightMm.toFixed(1)}mm (${scale.toFixed(4)}mm per pixel)`
+  );
+  checkFootprint(resolvePrinter(config.options.printer), dimensions.totalWidthMm, dimensions.totalHeightMm);
+
+  console.log(`Generating ${lithophane.shape ?? 'flat'} lithophane...`);
+  const panel = createLithophaneMesh(luminance, width, height, lithophane, scale);
+
+  const filament = lookupFilament(lithophane.color, undefined, catalogs);
+  const coloredObjects: ColoredObject[] = [
+    {
+      mesh: panel.mesh,
+      color: filament?.hex ?? '#ffffff',
+      filamentName: lithophane.color,
+      filament,
+    },
+  ];
+
+  await writeOutputs(coloredObjects, config, catalogs, outputFilepath, {
+    widthMm: panel.widthMm,
+    heightMm: panel.depthMm,
+    scale,
+  });
+}
+
+// Blend mode: translucent filaments stacked in a fixed order, one object per filament,
+// every pixel printed as high as its color needs
+async function processBlend(
+  imageFilepath: string,
+  config: Config,
+  configFilepath: string,
+  outputFilepath: string
+): Promise<void> {
+  const blend = config.options.blend!;
+  const metric = config.options.colorMetric ?? 'rgb';
+
+  const catalogIds = new Set(config.options.filaments ?? [DEFAULT_FILAMENT_CATALOG]);
+  for (const entry of blend.filaments) {
+    if (entry.catalog) catalogIds.add(entry.catalog);
+  }
+  const catalogs = loadFilamentCatalogs(Array.from(catalogIds), path.dirname(configFilepath));
+  const stack = createBlendStack(blend, catalogs);
+
+  // Only the background mask is used; pixel colors are matched unquantized
+  console.log('Processing image...');
+  const { backgroundMask } = await processImage(imageFilepath, config.options);
+  const { width, height, rgb } = await loadPixelColors(imageFilepath);
+
+  const dimensions = computeDimensions(config.options.size, width, height);
+  const scale = dimensions.scale;
+  console.log(
+    `Output size: ${dimensions.widthMm.toFixed(1)} x ${dimensions.heightMm.toFixed(1)}mm (${scale.toFixed(4)}mm per pixel)`
+  );
+  checkFootprint(resolvePrinter(config.options.printer), dimensions.totalWidthMm, dimensions.totalHeightMm);
+
+  console.log('Choosing layer heights...');
+  const levels = assignBlendLevels(rgb, backgroundMask, stack, metric);
+
+  const coloredObjects: ColoredObject[] = [];
+  const printed: BlendFilament[] = [];
+  for (const filament of stack.filaments) {
+    const label = filament.filament ? filamentLabel(filament.filament) : filament.name;
+    console.log(`Generating mesh for ${label}...`);
+
+    // One stepped shell from the filament's first layer up to every pixel's level
+    const spans = new Map<number, LabelSpan>();
+    for (let level = filament.firstLayer + 1; level <= filament.endLayer; level++) {
+      spans.set(level, { bottom: filament.firstLayer * stack.layerHeight, top: level * stack.layerHeight });
+    }
+    const mesh = extrudeSteps(blendLabelGrid(levels, width, height, filament), spans, scale);
+
+    if (mesh.triangles.length === 0) {
+      console.log(`No pixel reaches ${label}, skipping it`);
+      continue;
     }
+    coloredObjects.push({
+      mesh,
+      color: filament.hex,
+      filamentName: filament.name,
+      filament: filament.filament,
+    });
+    printed.push(filament);
   }
+
+  await writeOutputs(
+    coloredObjects,
+    config,
+    catalogs,
+    outputFilepath,
+    { widthMm: dimensions.widthMm, heightMm: dimensions.heightMm, scale },
+    planBlendSwaps(printed, stack.layerHeight, config.options.colorChange?.command)
+  );
 }
 
 export async function generateConfigFromImage(
   imageFilepath: string,
-  configFilepath: string
+  configFilepath: string,
+  overrides: ConfigOptions = {}
 ): Promise<void> {
   console.log('Analyzing image...');
-  const processedImage = await processImage(imageFilepath);
+  const options: ConfigOptions = {
+    colorMetric: DEFAULT_COLOR_METRIC,
+    background: overrides.background ?? (await suggestBackground(imageFilepath)),
+    ...overrides,
+  };
+  const processedImage = await processImage(imageFilepath, options);
 
-  const config = generateDefaultConfig(processedImage.modalColors);
+  const catalogs = loadFilamentCatalogs(options.filaments, path.dirname(configFilepath));
+  const config = generateDefaultConfig(
+    processedImage.modalColors,
+    options.colorMetric,
+    catalogs,
+    options.maxFilaments,
+    processedImage.modalPixelCounts
+  );
+  config.options = mergeOptions(config.options, options);
   writeConfig(configFilepath, config);
 
   console.log(`Wrote ${configFilepath}, edit and re-run to continue`);
@@ -0,0 +1,226 @@
+import { packRgb, unpackRgb } from './colors';
+import { labToRgb, rgbToLab } from './color-science';
+import { QuantizeAlgorithm } from './config';
+
+// Color quantizers. Each takes the image's distinct colors (packed 0xRRGGBB) with their
+// pixel counts and returns at most `count` representative colors, also packed.
+// All of them are deterministic, so the same image and settings give the same palette.
+
+export function quantizeColors(
+  colorCounts: Map<number, number>,
+  algorithm: Exclude<QuantizeAlgorithm, 'cluster'>,
+  count: number
+): number[] {
+  if (colorCounts.size === 0) return [];
+
+  switch (algorithm) {
+    case 'median-cut':
+      return medianCut(colorCounts, count);
+    case 'kmeans':
+      return kMeansLab(colorCounts, count);
+    case 'octree':
+      return octree(colorCounts, count);
+  }
+}
+
+// Median cut: repeatedly split the box with the widest channel range (weighted by the
+// pixels inside) at the weighted median, then average each box
+function medianCut(colorCounts: Map<number, number>, count: number): number[] {
+  const colors = Array.from(colorCounts.keys());
+  const channel = (color: number, c: number) => (color >> (16 - c * 8)) & 0xff;
+
+  const boxStats = (box: number[]) => {
+    let weight = 0;
+    let widest = 0;
+    let widestRange = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = 255;
+      let max = 0;
+      for (const color of box) {
+        const value = channel(color, c);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > widestRange) {
+        widestRange = max - min;
+        widest = c;
+      }
+    }
+    for (const color of box) weight += colorCounts.get(color)!;
+    return { weight, widest, widestRange };
+  };
+
+  const boxes: number[][] = [colors];
+  while (boxes.length < count) {
+    // Pick the box that contributes the most spread
+    let bestBox = -1;
+    let bestScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].length < 2) continue;
+      const { weight, widestRange } = boxStats(boxes[i]);
+      const score = widestRange * weight;
+      if (score > bestScore) {
+        bestScore = score;
+        bestBox = i;
+      }
+    }
+    if (bestBox < 0) break;
+
+    const box = boxes[bestBox];
+    const { weight, widest } = boxStats(box);
+    box.sort((a, b) => channel(a, widest) - channel(b, widest) || a - b);
+
+    // Split where half of the pixels are on each side, keeping both halves non-empty
+    let split = 1;
+    let accumulated = colorCounts.get(box[0])!;
+    while (split < box.length - 1 && accumulated + colorCounts.get(box[split])! <= weight / 2) {
+      accumulated += colorCounts.get(box[split])!;
+      split++;
+    }
+
+    boxes.splice(bestBox, 1, box.slice(0, split), box.slice(split));
+  }
+
+  return boxes.map((box) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let weight = 0;
+    for (const color of box) {
+      const w = colorCounts.get(color)!;
+      const rgb = unpackRgb(color);
+      r += rgb.r * w;
+      g += rgb.g * w;
+      b += rgb.b * w;
+      weight += w;
+    }
+    return packRgb({ r: r / weight, g: g / weight, b: b / weight });
+  });
+}
+
+const KMEANS_MAX_ITERATIONS = 30;
+
+// k-means in CIELAB, weighted by pixel count and seeded with the median cut palette
+function kMeansLab(colorCounts: Map<number, number>, count: number): number[] {
+  const colors = Array.from(colorCounts.keys());
+  const weights = colors.map((color) => colorCounts.get(color)!);
+  const labs = colors.map((color) => rgbToLab(unpackRgb(color)));
+
+  const centroids = medianCut(colorCounts, count).map((color) => {
+    const lab = rgbToLab(unpackRgb(color));
+    return { l: lab.l, a: lab.a, b: lab.b };
+  });
+  const assignment = new Int32Array(colors.length).fill(-1);
+
+  for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (let i = 0; i < colors.length; i++) {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let k = 0; k < centroids.length; k++) {
+        const dl = labs[i].l - centroids[k].l;
+        const da = labs[i].a - centroids[k].a;
+        const db = labs[i].b - centroids[k].b;
+        const dist = dl * dl + da * da + db * db;
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = k;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    // Move each centroid to the weighted mean of its colors (empty clusters stay put)
+    const sums = centroids.map(() => ({ l: 0, a: 0, b: 0, weight: 0 }));
+    for (let i = 0; i < colors.length; i++) {
+      const sum = sums[assignment[i]];
+      sum.l += labs[i].l * weights[i];
+      sum.a += labs[i].a * weights[i];
+      sum.b += labs[i].b * weights[i];
+      sum.weight += weights[i];
+    }
+    sums.forEach((sum, k) => {
+      if (sum.weight > 0) {
+        centroids[k] = { l: sum.l / sum.weight, a: sum.a / sum.weight, b: sum.b / sum.weight };
+      }
+    });
+  }
+
+  return Array.from(new Set(centroids.map((centroid) => packRgb(labToRgb(centroid)))));
+}
+
+interface OctreeNode {
+  r: number; // weighted channel sums of every color below this node
+  g: number;
+  b: number;
+  weight: number;
+  children: (OctreeNode | undefined)[] | undefined; // undefined for leaves
+}
+
+const OCTREE_DEPTH = 8;
+
+// Octree: insert every color into an 8-level RGB octree, then fold the lightest nodes
+// of the deepest level into their parents until few enough leaves remain
+function octree(colorCounts: Map<number, number>, count: number): number[] {
+  const newNode = (level: number): OctreeNode => ({
+    r: 0,
+    g: 0,
+    b: 0,
+    weight: 0,
+    children: level < OCTREE_DEPTH ? new Array(8) : undefined,
+  });
+
+  const root = newNode(0);
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leafCount = 0;
+
+  for (const [color, weight] of colorCounts) {
+    const { r, g, b } = unpackRgb(color);
+    let node = root;
+    for (let level = 0; ; level++) {
+      node.r += r * weight;
+      node.g += g * weight;
+      node.b += b * weight;
+      node.weight += weight;
+      if (!node.children) break;
+
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      if (!node.children[index]) {
+        node.children[index] = newNode(level + 1);
+        if (level + 1 < OCTREE_DEPTH) levels[level + 1].push(node.children[index]!);
+        else leafCount++;
+      }
+      node = node.children[index]!;
+    }
+  }
+
+  // Inner nodes at the deepest level first; the lightest of them is reduced first
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leafCount > count; level--) {
+    const candidates = (level === 0 ? [root] : levels[level]).slice().sort((a, b) => a.weight - b.weight);
+    for (const node of candidates) {
+      if (leafCount <= count) break;
+      const childCount = node.children!.filter((child) => child !== undefined).length;
+      node.children = undefined;
+      leafCount -= childCount - 1;
+    }
+  }
+
+  const palette: number[] = [];
+  const collect = (node: OctreeNode) => {
+    if (!node.children) {
+      palette.push(packRgb({ r: node.r / node.weight, g: node.g / node.weight, b: node.b / node.weight }));
+      return;
+    }
+    for (const child of node.children) {
+      if (child) collect(child);
+    }
+  };
+  collect(root);
+
+  return Array.from(new Set(palette));
+}
@@ -0,0 +1,197 @@
+import { ColoredObject } from './3mf';
+import { hexToRgb } from './colors';
+
+// RGBA pixels, row-major, ready for Jimp.fromBitmap
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+type Vec3 = { x: number; y: number; z: number };
+
+// Maps a model point to view space: x right, y up, z towards the viewer
+type Projection = (vertex: Vec3) => Vec3;
+
+// Fraction of the image left empty around the design
+const PADDING = 0.05;
+
+// Light for the shaded view, in view space, plus the ambient share
+const LIGHT = normalize({ x: -0.4, y: 0.6, z: 0.7 });
+const AMBIENT = 0.35;
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v.x, v.y, v.z) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
+const topProjection: Projection = (v) => v;
+
+// Seen from the front left, 45° around and about 35° above (isometric)
+const ISO_AZIMUTH = Math.PI / 4;
+const ISO_ELEVATION = Math.atan(1 / Math.SQRT2);
+const isometricProjection: Projection = (v) => {
+  const x = v.x * Math.cos(ISO_AZIMUTH) + v.y * Math.sin(ISO_AZIMUTH);
+  const y = -v.x * Math.sin(ISO_AZIMUTH) + v.y * Math.cos(ISO_AZIMUTH);
+  return {
+    x,
+    y: y * Math.sin(ISO_ELEVATION) + v.z * Math.cos(ISO_ELEVATION),
+    z: -y * Math.cos(ISO_ELEVATION) + v.z * Math.sin(ISO_ELEVATION),
+  };
+};
+
+// Z-buffered rasterization of every front-facing triangle, scaled to fit the image.
+// colorOf gets the object index and the unit face normal in view space and returns RGBA.
+function rasterize(
+  objects: ColoredObject[],
+  size: number,
+  project: Projection,
+  colorOf: (objectIndex: number, normal: Vec3) => [number, number, number, number]
+): RawImage {
+  const projected = objects.map((object) => object.mesh.vertices.map(project));
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const vertices of projected) {
+    for (const v of vertices) {
+      minX = Math.min(minX, v.x);
+      maxX = Math.max(maxX, v.x);
+      minY = Math.min(minY, v.y);
+      maxY = Math.max(maxY, v.y);
+    }
+  }
+
+  const data = Buffer.alloc(size * size * 4);
+  if (minX > maxX) return { width: size, height: size, data };
+
+  // Fit the longer side, centered, image rows going down
+  const fit = (size * (1 - 2 * PADDING)) / Math.max(maxX - minX, maxY - minY, 1e-9);
+  const offsetX = (size - (maxX - minX) * fit) / 2;
+  const offsetY = (size - (maxY - minY) * fit) / 2;
+  const toScreen = (v: Vec3) => ({ x: offsetX + (v.x - minX) * fit, y: offsetY + (maxY - v.y) * fit, z: v.z });
+
+  const depth = new Float32Array(size * size).fill(-Infinity);
+  projected.forEach((vertices, objectIndex) => {
+    const screen = vertices.map(toScreen);
+    for (const t of objects[objectIndex].mesh.triangles) {
+      const a = vertices[t.v1];
+      const b = vertices[t.v2];
+      const c = vertices[t.v3];
+
+      // Outward normal; faces pointing away are hidden behind the rest of the shell
+      const normal = normalize({
+        x: (b.y - a.y) * (c.z - a.z) - (b.z - a.z) * (c.y - a.y),
+        y: (b.z - a.z) * (c.x - a.x) - (b.x - a.x) * (c.z - a.z),
+        z: (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x),
+      });
+      if (normal.z <= 1e-6) continue;
+
+      const p0 = screen[t.v1];
+      const p1 = screen[t.v2];
+      const p2 = screen[t.v3];
+      const area = (p1.x - p0.x) * (p2.y - p0.y) - (p1.y - p0.y) * (p2.x - p0.x);
+      if (area === 0) continue;
+
+      const color = colorOf(objectIndex, normal);
+      const x0 = Math.max(0, Math.floor(Math.min(p0.x, p1.x, p2.x)));
+      const x1 = Math.min(size - 1, Math.ceil(Math.max(p0.x, p1.x, p2.x)));
+      const y0 = Math.max(0, Math.floor(Math.min(p0.y, p1.y, p2.y)));
+      const y1 = Math.min(size - 1, Math.ceil(Math.max(p0.y, p1.y, p2.y)));
+
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          // Barycentric weights of the pixel center
+          const px = x + 0.5;
+          const py = y + 0.5;
+          const w0 = ((p1.x - px) * (p2.y - py) - (p1.y - py) * (p2.x - px)) / area;
+          const w1 = ((p2.x - px) * (p0.y - py) - (p2.y - py) * (p0.x - px)) / area;
+          const w2 = 1 - w0 - w1;
+          if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+          const z = w0 * p0.z + w1 * p1.z + w2 * p2.z;
+          const i = y * size + x;
+          if (z <= depth[i]) continue;
+          depth[i] = z;
+          data.set(color, i * 4);
+        }
+      }
+    }
+  });
+
+  return { width: size, height: size, data };
+}
+
+// Average factor x factor blocks (alpha-weighted) to smooth the edges of a render
+function downsample(image: RawImage, factor: number): RawImage {
+  const size = image.width / factor;
+  const data = Buffer.alloc(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const i = ((y * factor + dy) * image.width + x * factor + dx) * 4;
+          const alpha = image.data[i + 3];
+          r += image.data[i] * alpha;
+          g += image.data[i + 1] * alpha;
+          b += image.data[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const o = (y * size + x) * 4;
+      if (a > 0) {
+        data[o] = Math.round(r / a);
+        data[o + 1] = Math.round(g / a);
+        data[o + 2] = Math.round(b / a);
+        data[o + 3] = Math.round(a / (factor * factor));
+      }
+    }
+  }
+
+  return { width: size, height: size, data };
+}
+
+const SUPERSAMPLING = 2;
+
+// The filament every object prints with, falling back to its image color
+function objectColors(objects: ColoredObject[]): { r: number; g: number; b: number }[] {
+  return objects.map((object) => hexToRgb(object.filament?.hex ?? object.color));
+}
+
+// Flat filament colors seen from straight above, like the image itself
+export function renderTopView(objects: ColoredObject[], size: number): RawImage {
+  const colors = objectColors(objects);
+  const image = rasterize(objects, size * SUPERSAMPLING, topProjection, (index) => {
+    const { r, g, b } = colors[index];
+    return [r, g, b, 255];
+  });
+  return downsample(image, SUPERSAMPLING);
+}
+
+// Isometric view with simple diffuse lighting, so heights and layers are visible
+export function renderIsometricView(objects: ColoredObject[], size: number): RawImage {
+  const colors = objectColors(objects);
+  const image = rasterize(objects, size * SUPERSAMPLING, isometricProjection, (index, normal) => {
+    const light = AMBIENT + (1 - AMBIENT) * Math.max(0, normal.x * LIGHT.x + normal.y * LIGHT.y + normal.z * LIGHT.z);
+    const { r, g, b } = colors[index];
+    return [Math.round(r * light), Math.round(g * light), Math.round(b * light), 255];
+  });
+  return downsample(image, SUPERSAMPLING);
+}
+
+// Top view where every object is filled with its id (red = low byte, green, blue = high
+// byte) and everything else is transparent, for picking objects on the plate
+export function renderPickMap(objects: ColoredObject[], ids: number[], size: number): RawImage {
+  return rasterize(objects, size, topProjection, (index) => [
+    ids[index] & 0xff,
+    (ids[index] >> 8) & 0xff,
+    (ids[index] >> 16) & 0xff,
+    255,
+  ]);
+}
@@ -0,0 +1,339 @@
+import { MeshObject } from './3mf';
+import { TilingConfig } from './config';
+import { ProcessedImage } from './image-processor';
+import { LabelGrid, Point2D, extrudePolygons, extrudeSteps, mergeMeshes } from './mesher';
+import { PrinterProfile } from './printers';
+
+export const DEFAULT_KEY_SIZE = 8;
+export const DEFAULT_KEY_SPACING = 50;
+export const DEFAULT_KEY_CLEARANCE = 0.2;
+
+// Tabs reach this far (mm) back into their own tile's backing so they print attached to it
+const KEY_OVERLAP = 1;
+
+// Backing that must surround a key on both sides of the cut, in mm
+const KEY_WALL = 1;
+
+// Width of a dovetail where it leaves the cut, as a fraction of its width at the tip
+const DOVETAIL_NECK = 0.6;
+
+// A rectangle of image pixels (row 0 at the top) printed on its own plate
+export interface Tile {
+  column: number;
+  row: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TileGrid {
+  columns: number;
+  rows: number;
+  tiles: Tile[]; // row by row from the top left
+}
+
+// Registration keys of one tile. Tabs stick out of its right and bottom edges into the
+// neighbours, whose backing has matching sockets. Both sit in the lower half of the backing,
+// so the tiles drop onto each other's tabs and the colors above stay supported.
+export interface TileKeys {
+  tabs: Point2D[][]; // convex outlines in mm, tile mesh coordinates
+  sockets: Uint8Array; // tile pixels cleared from the lower half of the backing
+}
+
+// How far keys stick out past the cut
+export function keyDepth(tiling: TilingConfig): number {
+  return (tiling.keySize ?? DEFAULT_KEY_SIZE) / 2;
+}
+
+// Split the image into the fewest columns and rows of equal tiles that fit the plate,
+// leaving room for the keys that stick out of every tile
+export function planTiles(
+  imageWidth: number,
+  imageHeight: number,
+  scale: number,
+  printer: PrinterProfile,
+  reach: number
+): TileGrid {
+  const maxWidth = Math.floor((printer.plateWidth - reach) / scale);
+  const maxHeight = Math.floor((printer.plateDepth - reach) / scale);
+  if (maxWidth < 1 || maxHeight < 1) {
+    throw new Error(`Tile keys of ${reach}mm leave no room on the plate of the ${printer.name}`);
+  }
+
+  const columns = Math.ceil(imageWidth / maxWidth);
+  const rows = Math.ceil(imageHeight / maxHeight);
+  const xs = Array.from({ length: columns + 1 }, (_, i) => Math.round((i * imageWidth) / columns));
+  const ys = Array.from({ length: rows + 1 }, (_, i) => Math.round((i * imageHeight) / rows));
+
+  const tiles: Tile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({
+        column,
+        row,
+        x: xs[column],
+        y: ys[row],
+        width: xs[column + 1] - xs[column],
+        height: ys[row + 1] - ys[row],
+      });
+    }
+  }
+
+  return { columns, rows, tiles };
+}
+
+// The part of the image covered by a tile
+export function cropImage(processedImage: ProcessedImage, tile: Tile): ProcessedImage {
+  const { width, height } = tile;
+  const colorIndices = new Uint8Array(width * height);
+  const backgroundMask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (tile.y + y) * processedImage.width + tile.x;
+    colorIndices.set(processedImage.colorIndices.subarray(start, start + width), y * width);
+    backgroundMask.set(processedImage.backgroundMask.subarray(start, start + width), y * width);
+  }
+
+  const modalPixelCounts = new Map<string, number>();
+  for (const index of colorIndices) {
+    const color = processedImage.modalColors[index];
+    if (color !== undefined) modalPixelCounts.set(color, (modalPixelCounts.get(color) ?? 0) + 1);
+  }
+
+  return { ...processedImage, width, height, colorIndices, backgroundMask, modalPixelCounts };
+}
+
+// Signed area, positive when counter-clockwise
+function signedArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+function counterClockwise(points: Point2D[]): Point2D[] {
+  return signedArea(points) < 0 ? points.slice().reverse() : points;
+}
+
+// Move every edge of a convex polygon inwards by distance
+function insetConvex(points: Point2D[], distance: number): Point2D[] {
+  const ring = counterClockwise(points);
+  const lines = ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    // Inward normal of a counter-clockwise ring is on the left
+    const nx = -(b.y - a.y) / length;
+    const ny = (b.x - a.x) / length;
+    return { x: a.x + nx * distance, y: a.y + ny * distance, dx: b.x - a.x, dy: b.y - a.y };
+  });
+
+  return lines.map((line, i) => {
+    const prev = lines[(i + lines.length - 1) % lines.length];
+    const denominator = prev.dx * line.dy - prev.dy * line.dx;
+    const t = ((line.x - prev.x) * line.dy - (line.y - prev.y) * line.dx) / denominator;
+    return { x: prev.x + prev.dx * t, y: prev.y + prev.dy * t };
+  });
+}
+
+// Whether the unit pixel square at (px, py) overlaps a convex polygon (separating axes)
+function pixelOverlaps(points: Point2D[], px: number, py: number): boolean {
+  const corners = [
+    { x: px, y: py },
+    { x: px + 1, y: py },
+    { x: px + 1, y: py + 1 },
+    { x: px, y: py + 1 },
+  ];
+  const axes: Point2D[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    axes.push({ x: -(b.y - a.y), y: b.x - a.x });
+  });
+
+  const epsilon = 1e-9;
+  for (const axis of axes) {
+    const project = (p: Point2D) => p.x * axis.x + p.y * axis.y;
+    const square = corners.map(project);
+    const polygon = points.map(project);
+    if (Math.max(...square) <= Math.min(...polygon) + epsilon || Math.max(...polygon) <= Math.min(...square) + epsilon) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Key outline across a cut, with u along the cut and v away from it into the neighbour
+// (both in mm), from v = start to the tip
+function keyOutline(tiling: TilingConfig, start: number): { u: number; v: number }[] {
+  const width = tiling.keySize ?? DEFAULT_KEY_SIZE;
+  const depth = keyDepth(tiling);
+  const halfWidth = (v: number) =>
+    tiling.keys === 'dovetail' ? (width * (DOVETAIL_NECK + ((1 - DOVETAIL_NECK) * v) / depth)) / 2 : width / 2;
+
+  return [
+    { u: -halfWidth(start), v: start },
+    { u: halfWidth(start), v: start },
+    { u: halfWidth(depth), v: depth },
+    { u: -halfWidth(depth), v: depth },
+  ];
+}
+
+// Place keys along every cut where both tiles have backing around them
+export function planKeys(
+  grid: TileGrid,
+  processedImage: ProcessedImage,
+  scale: number,
+  tiling: TilingConfig
+): TileKeys[] {
+  const keys: TileKeys[] = grid.tiles.map((tile) => ({
+    tabs: [],
+    sockets: new Uint8Array(tile.width * tile.height),
+  }));
+
+  const width = tiling.keySize ?? DEFAULT_KEY_SIZE;
+  const depth = keyDepth(tiling);
+  const overlap = Math.min(KEY_OVERLAP, depth);
+  const clearance = tiling.clearance ?? DEFAULT_KEY_CLEARANCE;
+  const spacing = tiling.keySpacing ?? DEFAULT_KEY_SPACING;
+
+  // Cuts to the right of and below every tile, between pixels start and end along them
+  const cuts: { from: number; to: number; vertical: boolean; cut: number; start: number; end: number }[] = [];
+  grid.tiles.forEach((tile, i) => {
+    if (tile.column + 1 < grid.columns) {
+      cuts.push({ from: i, to: i + 1, vertical: true, cut: tile.x + tile.width, start: tile.y, end: tile.y + tile.height });
+    }
+    if (tile.row + 1 < grid.rows) {
+      cuts.push({
+        from: i,
+        to: i + grid.columns,
+        vertical: false,
+        cut: tile.y + tile.height,
+        start: tile.x,
+        end: tile.x + tile.width,
+      });
+    }
+  });
+
+  for (const { from, to, vertical, cut, start, end } of cuts) {
+    // Image position of a key point, for a key centred at pixel `along`
+    const toImage = (along: number) => (p: { u: number; v: number }): Point2D =>
+      vertical ? { x: cut + p.v / scale, y: along + p.u / scale } : { x: along + p.u / scale, y: cut + p.v / scale };
+
+    const lengthMm = (end - start) * scale;
+    const count = Math.max(1, Math.round(lengthMm / spacing));
+    for (let k = 0; k < count; k++) {
+      const along = start + ((k + 0.5) * (end - start)) / count;
+
+      // The key and a wall around it must be backing on both sides, within this cut
+      const reach = width / 2 + KEY_WALL;
+      const lo = Math.floor(along - reach / scale);
+      const hi = Math.ceil(along + reach / scale);
+      const back = Math.floor(cut - (overlap + KEY_WALL) / scale);
+      const front = Math.ceil(cut + (depth + KEY_WALL) / scale);
+      if (lo < start || hi > end || !isForeground(processedImage, vertical, lo, hi, back, front)) continue;
+
+      // Tab on the first tile, shrunk by the clearance, in its mesh coordinates
+      const tile = grid.tiles[from];
+      const tab = insetConvex(keyOutline(tiling, -overlap).map(toImage(along)), clearance / scale);
+      keys[from].tabs.push(
+        counterClockwise(tab.map((p) => ({ x: (p.x - tile.x) * scale, y: (tile.y + tile.height - p.y) * scale })))
+      );
+
+      // Socket in the second tile: every pixel the full-size key touches
+      const neighbour = grid.tiles[to];
+      const socket = counterClockwise(keyOutline(tiling, 0).map(toImage(along)));
+      for (let y = 0; y < neighbour.height; y++) {
+        for (let x = 0; x < neighbour.width; x++) {
+          if (pixelOverlaps(socket, neighbour.x + x, neighbour.y + y)) {
+            keys[to].sockets[y * neighbour.width + x] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  // Sockets of two keys near a corner can touch diagonally, which would leave the backing
+  // between them joined along an edge only: clear the gap between them as well
+  grid.tiles.forEach((tile, i) => {
+    const sockets = keys[i].sockets;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let y = 0; y + 1 < tile.height; y++) {
+        for (let x = 0; x + 1 < tile.width; x++) {
+          const block = [y * tile.width + x, y * tile.width + x + 1, (y + 1) * tile.width + x, (y + 1) * tile.width + x + 1];
+          const [a, b, c, d] = block.map((pixel) => sockets[pixel]);
+          if (a === d && b === c && a !== b) {
+            for (const pixel of block) sockets[pixel] = 1;
+            changed = true;
+          }
+        }
+      }
+    }
+  });
+
+  return keys;
+}
+
+// Whether every pixel from lo to hi along a cut and from back to front across it is foreground
+function isForeground(
+  processedImage: ProcessedImage,
+  vertical: boolean,
+  lo: number,
+  hi: number,
+  back: number,
+  front: number
+): boolean {
+  const [x0, x1, y0, y1] = vertical ? [back, front, lo, hi] : [lo, hi, back, front];
+  if (x0 < 0 || y0 < 0 || x1 > processedImage.width || y1 > processedImage.height) return false;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (processedImage.backgroundMask[y * processedImage.width + x]) return false;
+    }
+  }
+  return true;
+}
+
+// Backing of a tile with its keys: one stepped shell over the footprint, starting half way
+// up over the sockets, plus a closed shell per tab reaching into the lower half
+export function createKeyedBacking(
+  footprint: LabelGrid,
+  keys: TileKeys,
+  thickness: number,
+  clearance: number,
+  scale: number
+): MeshObject {
+  const keyHeight = thickness / 2;
+  const backing: LabelGrid = {
+    width: footprint.width,
+    height: footprint.height,
+    labels: footprint.labels.map((label, i) => (label < 0 ? -1 : keys.sockets[i] ? 1 : 0)),
+  };
+  const spans = new Map([
+    [0, { bottom: 0, top: thickness }],
+    [1, { bottom: keyHeight, top: thickness }],
+  ]);
+  const tabs = keys.tabs.map((outer) => ({ label: 0, outer, holes: [] }));
+
+  return mergeMeshes([extrudeSteps(backing, spans, scale), extrudePolygons(tabs, 0, keyHeight - clearance, 1)]);
+}
+
+// Smallest rectangle around some meshes, in mm
+export function meshBounds(meshes: MeshObject[]): { x: number; y: number; width: number; height: number } {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const mesh of meshes) {
+    for (const vertex of mesh.vertices) {
+      minX = Math.min(minX, vertex.x);
+      minY = Math.min(minY, vertex.y);
+      maxX = Math.max(maxX, vertex.x);
+      maxY = Math.max(maxY, vertex.y);
+    }
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
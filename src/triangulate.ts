@@ -0,0 +1,757 @@
+// Polygon triangulation by ear clipping (a port of the earcut algorithm).
+// Handles holes, duplicate points and self-touching rings, which is exactly
+// what pixel-edge contours produce at diagonal pinch points.
+//
+// Ported from earcut (https://github.com/mapbox/earcut), under its license:
+//
+// ISC License
+//
+// Copyright (c) 2016, Mapbox
+//
+// Permission to use, copy, modify, and/or distribute this software for any purpose
+// with or without fee is hereby granted, provided that the above copyright notice
+// and this permission notice appear in all copies.
+//
+// THE SOFTWARE IS PROVIDED "AS IS" AND ISC DISCLAIMS ALL WARRANTIES WITH REGARD TO
+// THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS.
+// IN NO EVENT SHALL ISC BE LIABLE FOR ANY SPECIAL, DIRECT, INDIRECT, OR
+// CONSEQUENTIAL DAMAGES OR ANY DAMAGES WHATSOEVER RESULTING FROM LOSS OF USE, DATA
+// OR PROFITS, WHETHER IN AN ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION,
+// ARISING OUT OF OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+
+interface Node {
+  i: number; // vertex index in the input
+  x: number;
+  y: number;
+  prev: Node;
+  next: Node;
+  z: number; // z-order curve value
+  prevZ: Node | null;
+  nextZ: Node | null;
+  steiner: boolean;
+}
+
+// Triangulate a polygon given as flat [x0, y0, x1, y1, ...] coordinates.
+// holeIndices lists the vertex index where each hole ring starts.
+// Returns a flat list of vertex indices, three per triangle.
+export function triangulate(coords: number[], holeIndices: number[] = []): number[] {
+  const hasHoles = holeIndices.length > 0;
+  const outerLen = hasHoles ? holeIndices[0] * 2 : coords.length;
+  let outerNode = linkedList(coords, 0, outerLen, true);
+  const triangles: number[] = [];
+
+  if (!outerNode || outerNode.next === outerNode.prev) return triangles;
+
+  if (hasHoles) outerNode = eliminateHoles(coords, holeIndices, outerNode);
+
+  // Use z-order hashing for large polygons so ear checks stay fast
+  let minX = 0;
+  let minY = 0;
+  let invSize = 0;
+  if (coords.length > 80 * 2) {
+    minX = coords[0];
+    minY = coords[1];
+    let maxX = minX;
+    let maxY = minY;
+    for (let i = 2; i < outerLen; i += 2) {
+      const x = coords[i];
+      const y = coords[i + 1];
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+    invSize = Math.max(maxX - minX, maxY - minY);
+    invSize = invSize !== 0 ? 32767 / invSize : 0;
+  }
+
+  earcutLinked(outerNode, triangles, minX, minY, invSize, 0);
+
+  restoreSkippedVertices(coords, holeIndices, triangles);
+
+  return triangles;
+}
+
+// Ear clipping drops vertices that are collinear with their neighbours (they commonly appear
+// where a hole is bridged to the outer ring), leaving boundary triangle edges that pass
+// through other ring vertices. Split such triangles at those vertices so no T-junctions remain.
+function restoreSkippedVertices(coords: number[], holeIndices: number[], triangles: number[]): void {
+  const count = coords.length / 2;
+  const next = new Int32Array(count);
+  const prev = new Int32Array(count);
+  const ringStarts = [0, ...holeIndices, count];
+
+  for (let r = 0; r < ringStarts.length - 1; r++) {
+    const start = ringStarts[r];
+    const end = ringStarts[r + 1];
+    for (let v = start; v < end; v++) {
+      next[v] = v + 1 < end ? v + 1 : start;
+      prev[v] = v > start ? v - 1 : end - 1;
+    }
+  }
+
+  const edges = new Set<number>();
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      edges.add(triangles[t + k] * count + triangles[t + ((k + 1) % 3)]);
+    }
+  }
+
+  // Vertices bucketed on a grid of cells about one vertex apart, so only the cells an
+  // edge's bounding box covers are searched (thin for the axis-aligned edges of raster contours)
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let v = 0; v < count; v++) {
+    minX = Math.min(minX, coords[v * 2]);
+    minY = Math.min(minY, coords[v * 2 + 1]);
+    maxX = Math.max(maxX, coords[v * 2]);
+    maxY = Math.max(maxY, coords[v * 2 + 1]);
+  }
+  const cellSize = Math.max(maxX - minX, maxY - minY) / Math.ceil(Math.sqrt(count)) || 1;
+  const columns = Math.floor((maxX - minX) / cellSize) + 1;
+  const column = (x: number) => Math.floor((x - minX) / cellSize);
+  const row = (y: number) => Math.floor((y - minY) / cellSize);
+  const cells = new Map<number, number[]>();
+  for (let v = 0; v < count; v++) {
+    const key = row(coords[v * 2 + 1]) * columns + column(coords[v * 2]);
+    const cell = cells.get(key);
+    if (cell) cell.push(v);
+    else cells.set(key, [v]);
+  }
+
+  // Vertices lying strictly inside segment ab, ordered from a to b
+  const verticesOnSegment = (a: number, b: number): number[] => {
+    const ax = coords[a * 2];
+    const ay = coords[a * 2 + 1];
+    const bx = coords[b * 2];
+    const by = coords[b * 2 + 1];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const found: { v: number; t: number }[] = [];
+
+    for (let cy = row(Math.min(ay, by)); cy <= row(Math.max(ay, by)); cy++) {
+      for (let cx = column(Math.min(ax, bx)); cx <= column(Math.max(ax, bx)); cx++) {
+        for (const v of cells.get(cy * columns + cx) ?? []) {
+          const vx = coords[v * 2] - ax;
+          const vy = coords[v * 2 + 1] - ay;
+          if (dx * vy - dy * vx !== 0) continue;
+          const dot = vx * dx + vy * dy;
+          if (dot > 0 && dot < lengthSquared) found.push({ v, t: dot });
+        }
+      }
+    }
+
+    return found.sort((p, q) => p.t - q.t).map((p) => p.v);
+  };
+
+  // Triangles added by a split are checked in turn, and a split triangle again until none of
+  // its edges passes through a vertex: one triangle can have T-junctions on several edges
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[t + k];
+      const b = triangles[t + ((k + 1) % 3)];
+      const c = triangles[t + ((k + 2) % 3)];
+
+      // Only boundary edges (without a matching reversed edge) that are not ring edges
+      if (edges.has(b * count + a) || next[a] === b || prev[a] === b) continue;
+
+      const between = verticesOnSegment(a, b);
+      if (between.length === 0) continue;
+
+      // Replace (a, b, c) with a fan (a, v1, c), (v1, v2, c), ..., (vn, b, c). The spokes to
+      // c run both ways between neighbouring fan triangles, so they are interior edges.
+      const points = [a, ...between, b];
+      triangles[t] = points[0];
+      triangles[t + 1] = points[1];
+      triangles[t + 2] = c;
+      for (let i = 1; i < points.length - 1; i++) {
+        triangles.push(points[i], points[i + 1], c);
+        edges.add(points[i] * count + c);
+        edges.add(c * count + points[i]);
+      }
+      k = -1;
+    }
+  }
+}
+
+// Create a circular doubly linked list from polygon points in the specified winding order
+function linkedList(coords: number[], start: number, end: number, clockwise: boolean): Node | null {
+  let last: Node | null = null;
+
+  if (clockwise === signedArea(coords, start, end) > 0) {
+    for (let i = start; i < end; i += 2) last = insertNode(i / 2, coords[i], coords[i + 1], last);
+  } else {
+    for (let i = end - 2; i >= start; i -= 2) last = insertNode(i / 2, coords[i], coords[i + 1], last);
+  }
+
+  if (last && equals(last, last.next)) {
+    removeNode(last);
+    last = last.next;
+  }
+
+  return last;
+}
+
+// Eliminate colinear or duplicate points
+function filterPoints(start: Node, end?: Node): Node {
+  if (!end) end = start;
+
+  let p = start;
+  let again: boolean;
+  do {
+    again = false;
+
+    if (!p.steiner && (equals(p, p.next) || area(p.prev, p, p.next) === 0)) {
+      removeNode(p);
+      p = end = p.prev;
+      if (p === p.next) break;
+      again = true;
+    } else {
+      p = p.next;
+    }
+  } while (again || p !== end);
+
+  return end;
+}
+
+// Main ear slicing loop which triangulates a polygon (given as a linked list)
+function earcutLinked(
+  ear: Node | null,
+  triangles: number[],
+  minX: number,
+  minY: number,
+  invSize: number,
+  pass: number
+): void {
+  if (!ear) return;
+
+  // Interlink polygon nodes in z-order
+  if (!pass && invSize) indexCurve(ear, minX, minY, invSize);
+
+  let stop = ear;
+
+  // Iterate through ears, slicing them one by one
+  while (ear.prev !== ear.next) {
+    const prev: Node = ear.prev;
+    const next: Node = ear.next;
+
+    if (invSize ? isEarHashed(ear, minX, minY, invSize) : isEar(ear)) {
+      triangles.push(prev.i, ear.i, next.i);
+      removeNode(ear);
+
+      // Skipping the next vertex leads to less sliver triangles
+      ear = next.next;
+      stop = next.next;
+      continue;
+    }
+
+    ear = next;
+
+    // If we looped through the whole remaining polygon and can't find any more ears
+    if (ear === stop) {
+      if (!pass) {
+        // Try filtering points and slicing again
+        earcutLinked(filterPoints(ear), triangles, minX, minY, invSize, 1);
+      } else if (pass === 1) {
+        // If this didn't work, try curing all small self-intersections locally
+        ear = cureLocalIntersections(filterPoints(ear), triangles);
+        earcutLinked(ear, triangles, minX, minY, invSize, 2);
+      } else if (pass === 2) {
+        // As a last resort, try splitting the remaining polygon into two
+        splitEarcut(ear, triangles, minX, minY, invSize);
+      }
+
+      break;
+    }
+  }
+}
+
+// Check whether a polygon node forms a valid ear with adjacent nodes
+function isEar(ear: Node): boolean {
+  const a = ear.prev;
+  const b = ear;
+  const c = ear.next;
+
+  if (area(a, b, c) >= 0) return false; // reflex, can't be an ear
+
+  // Now make sure we don't have other points inside the potential ear
+  const x0 = Math.min(a.x, b.x, c.x);
+  const y0 = Math.min(a.y, b.y, c.y);
+  const x1 = Math.max(a.x, b.x, c.x);
+  const y1 = Math.max(a.y, b.y, c.y);
+
+  let p = c.next;
+  while (p !== a) {
+    if (
+      p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1 &&
+      pointInTriangle(a.x, a.y, b.x, b.y, c.x, c.y, p.x, p.y) &&
+      area(p.prev, p, p.next) >= 0
+    ) {
+      return false;
+    }
+    p = p.next;
+  }
+
+  return true;
+}
+
+function isEarHashed(ear: Node, minX: number, minY: number, invSize: number): boolean {
+  const a = ear.prev;
+  const b = ear;
+  const c = ear.next;
+
+  if (area(a, b, c) >= 0) return false; // reflex, can't be an ear
+
+  const x0 = Math.min(a.x, b.x, c.x);
+  const y0 = Math.min(a.y, b.y, c.y);
+  const x1 = Math.max(a.x, b.x, c.x);
+  const y1 = Math.max(a.y, b.y, c.y);
+
+  // z-order range for the current triangle bbox
+  const minZ = zOrder(x0, y0, minX, minY, invSize);
+  const maxZ = zOrder(x1, y1, minX, minY, invSize);
+
+  const blocks = (p: Node): boolean =>
+    p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1 &&
+    p !== a && p !== c &&
+    pointInTriangle(a.x, a.y, b.x, b.y, c.x, c.y, p.x, p.y) &&
+    area(p.prev, p, p.next) >= 0;
+
+  let p = ear.prevZ;
+  let n = ear.nextZ;
+
+  // Look for points inside the triangle in both directions
+  while (p && p.z >= minZ && n && n.z <= maxZ) {
+    if (blocks(p)) return false;
+    p = p.prevZ;
+
+    if (blocks(n)) return false;
+    n = n.nextZ;
+  }
+
+  // Look for remaining points in decreasing z-order
+  while (p && p.z >= minZ) {
+    if (blocks(p)) return false;
+    p = p.prevZ;
+  }
+
+  // Look for remaining points in increasing z-order
+  while (n && n.z <= maxZ) {
+    if (blocks(n)) return false;
+    n = n.nextZ;
+  }
+
+  return true;
+}
+
+// Go through all polygon nodes and cure small local self-intersections
+function cureLocalIntersections(start: Node, triangles: number[]): Node {
+  let p = start;
+  do {
+    const a = p.prev;
+    const b = p.next.next;
+
+    if (!equals(a, b) && intersects(a, p, p.next, b) && locallyInside(a, b) && locallyInside(b, a)) {
+      triangles.push(a.i, p.i, b.i);
+
+      // Remove two nodes involved
+      removeNode(p);
+      removeNode(p.next);
+
+      p = start = b;
+    }
+    p = p.next;
+  } while (p !== start);
+
+  return filterPoints(p);
+}
+
+// Try splitting polygon into two and triangulate them independently
+function splitEarcut(start: Node, triangles: number[], minX: number, minY: number, invSize: number): void {
+  // Look for a valid diagonal that divides the polygon into two
+  let a = start;
+  do {
+    let b = a.next.next;
+    while (b !== a.prev) {
+      if (a.i !== b.i && isValidDiagonal(a, b)) {
+        // Split the polygon in two by the diagonal
+        let c = splitPolygon(a, b);
+
+        // Filter colinear points around the cuts
+        a = filterPoints(a, a.next);
+        c = filterPoints(c, c.next);
+
+        // Run earcut on each half
+        earcutLinked(a, triangles, minX, minY, invSize, 0);
+        earcutLinked(c, triangles, minX, minY, invSize, 0);
+        return;
+      }
+      b = b.next;
+    }
+    a = a.next;
+  } while (a !== start);
+}
+
+// Link every hole into the outer loop, producing a single-ring polygon without holes
+function eliminateHoles(coords: number[], holeIndices: number[], outerNode: Node): Node {
+  const queue: Node[] = [];
+
+  for (let i = 0; i < holeIndices.length; i++) {
+    const start = holeIndices[i] * 2;
+    const end = i < holeIndices.length - 1 ? holeIndices[i + 1] * 2 : coords.length;
+    const list = linkedList(coords, start, end, false);
+    if (!list) continue;
+    if (list === list.next) list.steiner = true;
+    queue.push(getLeftmost(list));
+  }
+
+  queue.sort((a, b) => a.x - b.x);
+
+  // Process holes from left to right
+  for (const hole of queue) {
+    outerNode = eliminateHole(hole, outerNode);
+  }
+
+  return outerNode;
+}
+
+// Find a bridge between vertices that connects hole with an outer ring and link it
+function eliminateHole(hole: Node, outerNode: Node): Node {
+  const bridge = findHoleBridge(hole, outerNode);
+  if (!bridge) return outerNode;
+
+  const bridgeReverse = splitPolygon(bridge, hole);
+
+  // Filter collinear points around the cuts
+  filterPoints(bridgeReverse, bridgeReverse.next);
+  return filterPoints(bridge, bridge.next);
+}
+
+// David Eberly's algorithm for finding a bridge between hole and outer polygon
+function findHoleBridge(hole: Node, outerNode: Node): Node | null {
+  let p = outerNode;
+  const hx = hole.x;
+  const hy = hole.y;
+  let qx = -Infinity;
+  let m: Node | null = null;
+
+  // Find a segment intersected by a ray from the hole's leftmost point to the left;
+  // segment's endpoint with lesser x will be the potential connection point
+  do {
+    if (hy <= p.y && hy >= p.next.y && p.next.y !== p.y) {
+      const x = p.x + ((hy - p.y) * (p.next.x - p.x)) / (p.next.y - p.y);
+      if (x <= hx && x > qx) {
+        qx = x;
+        m = p.x < p.next.x ? p : p.next;
+        if (x === hx) return m; // hole touches outer segment; pick leftmost endpoint
+      }
+    }
+    p = p.next;
+  } while (p !== outerNode);
+
+  if (!m) return null;
+
+  // Look for points inside the triangle of hole point, segment intersection and endpoint;
+  // if there are no points found, we have a valid connection;
+  // otherwise choose the point of the minimum angle with the ray as connection point
+  const stop = m;
+  const mx = m.x;
+  const my = m.y;
+  let tanMin = Infinity;
+
+  p = m;
+
+  do {
+    if (
+      hx >= p.x && p.x >= mx && hx !== p.x &&
+      pointInTriangle(hy < my ? hx : qx, hy, mx, my, hy < my ? qx : hx, hy, p.x, p.y)
+    ) {
+      const tan = Math.abs(hy - p.y) / (hx - p.x); // tangential
+
+      if (
+        locallyInside(p, hole) &&
+        (tan < tanMin || (tan === tanMin && (p.x > m.x || (p.x === m.x && sectorContainsSector(m, p)))))
+      ) {
+        m = p;
+        tanMin = tan;
+      }
+    }
+
+    p = p.next;
+  } while (p !== stop);
+
+  return m;
+}
+
+// Whether sector in vertex m contains sector in vertex p in the same coordinates
+function sectorContainsSector(m: Node, p: Node): boolean {
+  return area(m.prev, m, p.prev) < 0 && area(p.next, m, m.next) < 0;
+}
+
+// Interlink polygon nodes in z-order
+function indexCurve(start: Node, minX: number, minY: number, invSize: number): void {
+  let p = start;
+  do {
+    if (p.z === 0) p.z = zOrder(p.x, p.y, minX, minY, invSize);
+    p.prevZ = p.prev;
+    p.nextZ = p.next;
+    p = p.next;
+  } while (p !== start);
+
+  p.prevZ!.nextZ = null;
+  p.prevZ = null;
+
+  sortLinked(p);
+}
+
+// Simon Tatham's linked list merge sort algorithm
+function sortLinked(list: Node | null): Node | null {
+  let inSize = 1;
+  let numMerges: number;
+
+  do {
+    let p = list;
+    let tail: Node | null = null;
+    list = null;
+    numMerges = 0;
+
+    while (p) {
+      numMerges++;
+      let q: Node | null = p;
+      let pSize = 0;
+      for (let i = 0; i < inSize; i++) {
+        pSize++;
+        q = q.nextZ;
+        if (!q) break;
+      }
+      let qSize = inSize;
+
+      while (pSize > 0 || (qSize > 0 && q)) {
+        let e: Node;
+        if (pSize !== 0 && (qSize === 0 || !q || p!.z <= q.z)) {
+          e = p!;
+          p = p!.nextZ;
+          pSize--;
+        } else {
+          e = q!;
+          q = q!.nextZ;
+          qSize--;
+        }
+
+        if (tail) tail.nextZ = e;
+        else list = e;
+
+        e.prevZ = tail;
+        tail = e;
+      }
+
+      p = q;
+    }
+
+    tail!.nextZ = null;
+    inSize *= 2;
+  } while (numMerges > 1);
+
+  return list;
+}
+
+// z-order of a point given coords and inverse of the longer side of data bbox
+function zOrder(x: number, y: number, minX: number, minY: number, invSize: number): number {
+  // Coords are transformed into non-negative 15-bit integer range
+  x = ((x - minX) * invSize) | 0;
+  y = ((y - minY) * invSize) | 0;
+
+  x = (x | (x << 8)) & 0x00ff00ff;
+  x = (x | (x << 4)) & 0x0f0f0f0f;
+  x = (x | (x << 2)) & 0x33333333;
+  x = (x | (x << 1)) & 0x55555555;
+
+  y = (y | (y << 8)) & 0x00ff00ff;
+  y = (y | (y << 4)) & 0x0f0f0f0f;
+  y = (y | (y << 2)) & 0x33333333;
+  y = (y | (y << 1)) & 0x55555555;
+
+  return x | (y << 1);
+}
+
+// Find the leftmost node of a polygon ring
+function getLeftmost(start: Node): Node {
+  let p = start;
+  let leftmost = start;
+  do {
+    if (p.x < leftmost.x || (p.x === leftmost.x && p.y < leftmost.y)) leftmost = p;
+    p = p.next;
+  } while (p !== start);
+
+  return leftmost;
+}
+
+// Check if a point lies within a convex triangle
+function pointInTriangle(
+  ax: number, ay: number,
+  bx: number, by: number,
+  cx: number, cy: number,
+  px: number, py: number
+): boolean {
+  return (
+    (cx - px) * (ay - py) >= (ax - px) * (cy - py) &&
+    (ax - px) * (by - py) >= (bx - px) * (ay - py) &&
+    (bx - px) * (cy - py) >= (cx - px) * (by - py)
+  );
+}
+
+// Check if a diagonal between two polygon nodes is valid (lies in polygon interior)
+function isValidDiagonal(a: Node, b: Node): boolean {
+  return (
+    a.next.i !== b.i &&
+    a.prev.i !== b.i &&
+    !intersectsPolygon(a, b) && // doesn't intersect other edges
+    ((locallyInside(a, b) && locallyInside(b, a) && middleInside(a, b) && // locally visible
+      (area(a.prev, a, b.prev) !== 0 || area(a, b.prev, b) !== 0)) || // does not create opposite-facing sectors
+      (equals(a, b) && area(a.prev, a, a.next) > 0 && area(b.prev, b, b.next) > 0)) // special zero-length case
+  );
+}
+
+// Signed area of a triangle
+function area(p: Node, q: Node, r: Node): number {
+  return (q.y - p.y) * (r.x - q.x) - (q.x - p.x) * (r.y - q.y);
+}
+
+function equals(p1: Node, p2: Node): boolean {
+  return p1.x === p2.x && p1.y === p2.y;
+}
+
+// Check if two segments intersect
+function intersects(p1: Node, q1: Node, p2: Node, q2: Node): boolean {
+  const o1 = Math.sign(area(p1, q1, p2));
+  const o2 = Math.sign(area(p1, q1, q2));
+  const o3 = Math.sign(area(p2, q2, p1));
+  const o4 = Math.sign(area(p2, q2, q1));
+
+  if (o1 !== o2 && o3 !== o4) return true; // general case
+
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true; // p1, q1 and p2 are collinear and p2 lies on p1q1
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true; // p1, q1 and q2 are collinear and q2 lies on p1q1
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true; // p2, q2 and p1 are collinear and p1 lies on p2q2
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true; // p2, q2 and q1 are collinear and q1 lies on p2q2
+
+  return false;
+}
+
+// For collinear points p, q, r, check if point q lies on segment pr
+function onSegment(p: Node, q: Node, r: Node): boolean {
+  return (
+    q.x <= Math.max(p.x, r.x) && q.x >= Math.min(p.x, r.x) &&
+    q.y <= Math.max(p.y, r.y) && q.y >= Math.min(p.y, r.y)
+  );
+}
+
+// Check if a polygon diagonal intersects any polygon segments
+function intersectsPolygon(a: Node, b: Node): boolean {
+  let p = a;
+  do {
+    if (
+      p.i !== a.i && p.next.i !== a.i && p.i !== b.i && p.next.i !== b.i &&
+      intersects(p, p.next, a, b)
+    ) {
+      return true;
+    }
+    p = p.next;
+  } while (p !== a);
+
+  return false;
+}
+
+// Check if a polygon diagonal is locally inside the polygon
+function locallyInside(a: Node, b: Node): boolean {
+  return area(a.prev, a, a.next) < 0
+    ? area(a, b, a.next) >= 0 && area(a, a.prev, b) >= 0
+    : area(a, b, a.prev) < 0 || area(a, a.next, b) < 0;
+}
+
+// Check if the middle point of a polygon diagonal is inside the polygon
+function middleInside(a: Node, b: Node): boolean {
+  let p = a;
+  let inside = false;
+  const px = (a.x + b.x) / 2;
+  const py = (a.y + b.y) / 2;
+  do {
+    if (
+      p.y > py !== p.next.y > py &&
+      p.next.y !== p.y &&
+      px < ((p.next.x - p.x) * (py - p.y)) / (p.next.y - p.y) + p.x
+    ) {
+      inside = !inside;
+    }
+    p = p.next;
+  } while (p !== a);
+
+  return inside;
+}
+
+// Link two polygon vertices with a bridge; if the vertices belong to the same ring, it splits
+// polygon into two; if one belongs to the outer ring and another to a hole, it merges it into
+// a single ring
+function splitPolygon(a: Node, b: Node): Node {
+  const a2 = createNode(a.i, a.x, a.y);
+  const b2 = createNode(b.i, b.x, b.y);
+  const an = a.next;
+  const bp = b.prev;
+
+  a.next = b;
+  b.prev = a;
+
+  a2.next = an;
+  an.prev = a2;
+
+  b2.next = a2;
+  a2.prev = b2;
+
+  bp.next = b2;
+  b2.prev = bp;
+
+  return b2;
+}
+
+// Create a node and optionally link it with the previous one (in a circular doubly linked list)
+function insertNode(i: number, x: number, y: number, last: Node | null): Node {
+  const p = createNode(i, x, y);
+
+  if (!last) {
+    p.prev = p;
+    p.next = p;
+  } else {
+    p.next = last.next;
+    p.prev = last;
+    last.next.prev = p;
+    last.next = p;
+  }
+  return p;
+}
+
+function removeNode(p: Node): void {
+  p.next.prev = p.prev;
+  p.prev.next = p.next;
+
+  if (p.prevZ) p.prevZ.nextZ = p.nextZ;
+  if (p.nextZ) p.nextZ.prevZ = p.prevZ;
+}
+
+function createNode(i: number, x: number, y: number): Node {
+  const node = { i, x, y, z: 0, prevZ: null, nextZ: null, steiner: false } as unknown as Node;
+  node.prev = node;
+  node.next = node;
+  return node;
+}
+
+function signedArea(coords: number[], start: number, end: number): number {
+  let sum = 0;
+  for (let i = start, j = end - 2; i < end; i += 2) {
+    sum += (coords[j] - coords[i]) * (coords[i + 1] + coords[j + 1]);
+    j = i;
+  }
+  return sum;
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import unzipper from 'unzipper';
+import { read3MF } from '../src';
+import { buildTestDesign, silenceConsole } from './fixtures';
+import { meshVolume, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+// Text of a file in a 3MF
+async function readEntry(build: Buffer, name: string): Promise<string> {
+  const directory = await unzipper.Open.buffer(build);
+  const file = directory.files.find((entry) => entry.path === name);
+  assert.ok(file, `${name} is missing`);
+  return (await file.buffer()).toString('utf-8');
+}
+
+test('singleObject emits one object with a part per color on its own extruder', async () => {
+  const separate = await read3MF(await buildTestDesign({}));
+  const build = await buildTestDesign({ singleObject: true });
+
+  const model = await readEntry(build, '3D/3dmodel.model');
+  assert.equal(model.match(/<item /g)?.length, 1);
+  assert.equal(model.match(/<component /g)?.length, separate.length);
+
+  // The parts keep the extruders the separate objects had
+  const settings = await readEntry(build, 'Metadata/model_settings.config');
+  const parts = Array.from(
+    settings.matchAll(/<part id="\d+" subtype="normal_part">\s*<metadata key="name" value="([^"]+)"\/>[^]*?key="extruder" value="(\d+)"/g),
+    ([, name, extruder]) => [name, Number(extruder)]
+  );
+  assert.deepEqual(parts, separate.map((object) => [object.name, object.extruder]));
+
+  // One assembly: the parts together, placed where the objects were
+  const [design] = await read3MF(build);
+  assert.equal(design.name, 'design');
+  assert.equal(openEdges(design.mesh), 0);
+  const volume = separate.reduce((sum, object) => sum + meshVolume(object.mesh), 0);
+  assert.ok(Math.abs(meshVolume(design.mesh) - volume) < 1e-6);
+  assert.deepEqual(design.transform, separate[0].transform);
+});
+
+test('project_settings.config lists the filament of every AMS slot and nothing else', async () => {
+  const build = await buildTestDesign({ amsSlots: { red: 6 } });
+  const settings = JSON.parse(await readEntry(build, 'Metadata/project_settings.config'));
+  // Preset settings would make the slicer report customized presets
+  assert.deepEqual(Object.keys(settings), [
+    'filament_colour',
+    'filament_type',
+    'filament_vendor',
+    'filament_ids',
+    'filament_settings_id',
+  ]);
+
+  const objects = await read3MF(build);
+  assert.equal(objects.find((object) => object.color === '#C12E1F')!.extruder, 6);
+  for (const object of objects) {
+    const slot = object.extruder! - 1;
+    assert.equal(settings.filament_colour[slot], object.color);
+    assert.equal(settings.filament_vendor[slot], 'Bambu Lab');
+    assert.equal(settings.filament_ids[slot], 'GFA00');
+    assert.equal(settings.filament_settings_id[slot], 'Bambu PLA Basic');
+  }
+
+  // The other colors fill the lowest slots; the rest hold generic white PLA
+  for (const key of Object.keys(settings)) assert.equal(settings[key].length, 6, key);
+  assert.deepEqual(
+    [3, 4].map((slot) => Object.keys(settings).map((key) => settings[key][slot])),
+    [
+      ['#FFFFFF', 'PLA', 'Generic', 'GFL99', 'Generic PLA'],
+      ['#FFFFFF', 'PLA', 'Generic', 'GFL99', 'Generic PLA'],
+    ]
+  );
+  assert.deepEqual(settings.filament_type, ['PLA', 'PLA', 'PLA', 'PLA', 'PLA', 'PLA']);
+
+  const orcaBuild = await buildTestDesign({ amsSlots: { red: 6 } }, { outputProfile: 'orca' });
+  const orca = JSON.parse(await readEntry(orcaBuild, 'Metadata/project_settings.config'));
+  assert.equal(orca.filament_settings_id[3], 'Generic PLA @System');
+});
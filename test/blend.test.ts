@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import unzipper from 'unzipper';
+import { processImageTo3MF, read3MF } from '../src';
+import { ConfigOptions } from '../src/config';
+import { buildTestDesign, createTempDir, silenceConsole, writeGradientImage, writeTestDesign } from './fixtures';
+import { crowdedEdges, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+test('every blend filament is one watertight shell', async () => {
+  // The ramps reach many levels of every filament, so each is stepped
+  const options: ConfigOptions = {
+    background: { strategy: 'none' },
+    blend: {
+      filaments: [
+        { color: 'black', td: 0.6, thickness: 0.48 },
+        { color: 'red', td: 1.2, thickness: 0.8 },
+        { color: 'white', td: 2, thickness: 1.2 },
+      ],
+    },
+  };
+  const build = await buildTestDesign(options, {}, writeGradientImage);
+
+  const objects = await read3MF(build);
+  assert.equal(objects.length, 3);
+  for (const object of objects) {
+    assert.equal(openEdges(object.mesh), 0, `${object.name} is not watertight`);
+    assert.equal(crowdedEdges(object.mesh), 0, `${object.name} has crowded edges`);
+  }
+});
+
+test('blend filaments given as hex colors keep their color', async () => {
+  const options: ConfigOptions = {
+    background: { strategy: 'none' },
+    blend: {
+      filaments: [
+        { color: 'black', td: 0.6 },
+        { color: '#3366CC', td: 1.5 },
+      ],
+    },
+  };
+  const objects = await read3MF(await buildTestDesign(options, {}, writeGradientImage));
+  assert.deepEqual(
+    objects.map((object) => object.color?.toLowerCase()),
+    ['#161616', '#3366cc']
+  );
+});
+
+// Build the ramps with three filaments, 6 and 10 layers of 0.08mm below the white
+async function buildSwaps(options: ConfigOptions): Promise<{ summary: string[]; directory: unzipper.CentralDirectory }> {
+  const dir = createTempDir();
+  const { imagePath, configPath } = await writeTestDesign(
+    dir,
+    {
+      background: { strategy: 'none' },
+      blend: {
+        filaments: [
+          { color: 'black', td: 0.6, thickness: 0.48 },
+          { color: 'red', td: 1.2, thickness: 0.8 },
+          { color: 'white', td: 2, thickness: 1.2 },
+        ],
+      },
+      ...options,
+    },
+    writeGradientImage
+  );
+  const outputPath = path.join(dir, 'design.3mf');
+  await processImageTo3MF(imagePath, configPath, outputPath, { deterministic: true });
+  return {
+    summary: fs.readFileSync(path.join(dir, 'design.color-changes.txt'), 'utf-8').split('\n'),
+    directory: await unzipper.Open.file(outputPath),
+  };
+}
+
+test('blend swaps are written next to the 3MF', async () => {
+  const { summary, directory } = await buildSwaps({});
+  assert.deepEqual(summary, [
+    'Start with Bambu Lab PLA Basic black',
+    'Layer 7 (0.56mm): change filament to Bambu Lab PLA Basic red (#C12E1F)',
+    'Layer 17 (1.36mm): change filament to Bambu Lab PLA Basic white (#FFFFFF)',
+    '',
+  ]);
+  // An AMS swaps by itself
+  assert.ok(!directory.files.some((entry) => entry.path === 'Metadata/custom_gcode_per_layer.xml'));
+});
+
+test('blend swaps become filament changes in the 3MF for a single extruder', async () => {
+  const { directory } = await buildSwaps({ colorChange: { command: 'pause' } });
+  const file = directory.files.find((entry) => entry.path === 'Metadata/custom_gcode_per_layer.xml');
+  assert.ok(file, 'the 3MF has no filament changes');
+  const layers = Array.from((await file.buffer()).toString().matchAll(/<layer top_z="([\d.]+)" type="1" .*? color="(#\w+)"/g));
+  assert.deepEqual(
+    layers.map(([, z, color]) => [Number(z), color]),
+    [
+      [0.56, '#C12E1F'],
+      [1.36, '#FFFFFF'],
+    ]
+  );
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { deltaE2000, deltaE76, LabColor, labToRgb, rgbToLab } from '../src/color-science';
+import { colorDistance } from '../src/colors';
+
+const lab = (l: number, a: number, b: number): LabColor => ({ l, a, b });
+
+// Reference pairs from Sharma, Wu and Dalal, "The CIEDE2000 color-difference formula"
+const SHARMA_PAIRS: [LabColor, LabColor, number][] = [
+  [lab(50, 2.6772, -79.7751), lab(50, 0, -82.7485), 2.0425],
+  [lab(50, 3.1571, -77.2803), lab(50, 0, -82.7485), 2.8615],
+  [lab(50, 2.8361, -74.02), lab(50, 0, -82.7485), 3.4412],
+  [lab(50, 0, 0), lab(50, -1, 2), 2.3669],
+  [lab(50, 2.5, 0), lab(73, 25, -18), 27.1492],
+  [lab(50, 2.5, 0), lab(61, -5, 29), 22.8977],
+  [lab(50, 2.5, 0), lab(56, -27, -3), 31.903],
+  [lab(50, 2.5, 0), lab(58, 24, 15), 19.4535],
+  [lab(60.2574, -34.0099, 36.2677), lab(60.4626, -34.1751, 39.4387), 1.2644],
+  [lab(2.0776, 0.0795, -1.135), lab(0.9033, -0.0636, -0.5514), 0.9082],
+];
+
+test('CIEDE2000 matches the published reference pairs', () => {
+  for (const [lab1, lab2, expected] of SHARMA_PAIRS) {
+    assert.equal(Math.round(deltaE2000(lab1, lab2) * 10000) / 10000, expected);
+    assert.equal(Math.round(deltaE2000(lab2, lab1) * 10000) / 10000, expected, 'not symmetric');
+  }
+});
+
+test('sRGB converts to D65 CIELAB and back', () => {
+  const red = rgbToLab({ r: 255, g: 0, b: 0 });
+  assert.deepEqual([red.l, red.a, red.b].map((v) => Math.round(v * 100) / 100), [53.24, 80.09, 67.2]);
+  const white = rgbToLab({ r: 255, g: 255, b: 255 });
+  assert.ok(Math.abs(white.l - 100) < 0.01 && Math.abs(white.a) < 0.01 && Math.abs(white.b) < 0.01);
+
+  const back = labToRgb(rgbToLab({ r: 12, g: 200, b: 99 }));
+  assert.deepEqual([back.r, back.g, back.b].map(Math.round), [12, 200, 99]);
+  assert.equal(deltaE76(lab(50, 0, 0), lab(53, 4, 0)), 5);
+});
+
+test('fractional colors are converted as they are, not as the whole color they round to', () => {
+  // The whole color first, so a cache keyed by the rounded color would answer for the others
+  const whole = rgbToLab({ r: 100, g: 100, b: 100 });
+  const below = rgbToLab({ r: 99.6, g: 99.6, b: 99.6 });
+  const above = rgbToLab({ r: 100.4, g: 100.4, b: 100.4 });
+  assert.ok(below.l < whole.l && whole.l < above.l);
+
+  assert.ok(colorDistance({ r: 100, g: 100, b: 100 }, { r: 100.4, g: 100.4, b: 100.4 }, 'ciede2000') > 0);
+});
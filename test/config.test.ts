@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { mergeOptions, readConfig } from '../src/config';
+import { resolvePrinter } from '../src/printers';
+import { createTempDir } from './fixtures';
+
+// Read a config with these options
+function readOptions(options: unknown): void {
+  const configPath = path.join(createTempDir(), 'design.jsonc');
+  fs.writeFileSync(configPath, JSON.stringify({ colors: {}, options }));
+  readConfig(configPath);
+}
+
+test('command-line overrides keep the other keys of nested options', () => {
+  const options = mergeOptions(
+    {
+      colorChange: { layerHeight: 0.12, firstLayerHeight: 0.2 },
+      cleanup: { minFeatureArea: 0.5 },
+      quantize: { colors: 8, palette: ['#000000', '#ffffff'] },
+      tiling: { keys: 'dovetail', keySize: 10 },
+      metadata: { title: 'Otter', designer: 'Someone' },
+    },
+    {
+      colorChange: { command: 'pause' },
+      cleanup: { nozzleDiameter: 0.8 },
+      quantize: { algorithm: 'kmeans' },
+      tiling: { clearance: 0.3 },
+      metadata: { title: 'Sea otter' },
+    }
+  );
+
+  assert.deepEqual(options.colorChange, { command: 'pause', layerHeight: 0.12, firstLayerHeight: 0.2 });
+  assert.deepEqual(options.cleanup, { nozzleDiameter: 0.8, minFeatureArea: 0.5 });
+  assert.deepEqual(options.quantize, { algorithm: 'kmeans', colors: 8, palette: ['#000000', '#ffffff'] });
+  assert.deepEqual(options.tiling, { keys: 'dovetail', keySize: 10, clearance: 0.3 });
+  assert.deepEqual(options.metadata, { title: 'Sea otter', designer: 'Someone' });
+});
+
+test('overriding the color count keeps the configured algorithm', () => {
+  const options = mergeOptions({ quantize: { algorithm: 'octree', colors: 16 } }, { quantize: { colors: 6 } });
+  assert.deepEqual(options.quantize, { algorithm: 'octree', colors: 6 });
+});
+
+test('a background with another strategy replaces the configured one', () => {
+  const same = mergeOptions({ background: { strategy: 'alpha', threshold: 200 } }, { background: { strategy: 'alpha' } });
+  assert.deepEqual(same.background, { strategy: 'alpha', threshold: 200 });
+
+  const other = mergeOptions(
+    { background: { strategy: 'color', color: '#ffffff', tolerance: 5 } },
+    { background: { strategy: 'flood' } }
+  );
+  assert.deepEqual(other.background, { strategy: 'flood' });
+});
+
+test('a size with another target replaces the configured one but keeps the margin', () => {
+  const options = mergeOptions({ size: { width: 200, height: 150, margin: 2 } }, { size: { longestEdge: 120 } });
+  assert.deepEqual(options.size, { margin: 2, longestEdge: 120 });
+});
+
+test('options without overrides are kept as they are', () => {
+  const options = mergeOptions({ cleanup: { minFeatureArea: 0.5 }, printer: 'a1-mini' }, { printer: 'x1c' });
+  assert.deepEqual(options, { cleanup: { minFeatureArea: 0.5 }, printer: 'x1c' });
+});
+
+test('an unknown background strategy is named in the error', () => {
+  assert.throws(() => readOptions({ background: { strategy: 'magic' } }), /unknown background strategy "magic"/);
+});
+
+test('a printer id must name one of the profiles, not an inherited property', () => {
+  assert.throws(() => readOptions({ printer: 'constructor' }), /unknown printer "constructor"/);
+  assert.throws(() => resolvePrinter('toString'), /Unknown printer "toString"/);
+});
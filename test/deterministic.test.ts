@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import unzipper from 'unzipper';
+import { OutputProfile } from '../src/config';
+import { buildTestDesign, silenceConsole } from './fixtures';
+
+silenceConsole();
+
+async function buildInTimeZone(timeZone: string, profile: OutputProfile): Promise<Buffer> {
+  const previous = process.env.TZ;
+  process.env.TZ = timeZone;
+  try {
+    return await buildTestDesign({ backing: { color: 'white', thickness: 1 } }, { outputProfile: profile });
+  } finally {
+    if (previous === undefined) delete process.env.TZ;
+    else process.env.TZ = previous;
+  }
+}
+
+for (const profile of ['bambu', 'prusa', 'core'] as OutputProfile[]) {
+  test(`deterministic ${profile} output is byte-identical across time zones`, async () => {
+    const utc = await buildInTimeZone('UTC', profile);
+    const newYork = await buildInTimeZone('America/New_York', profile);
+    const tokyo = await buildInTimeZone('Asia/Tokyo', profile);
+    assert.ok(utc.equals(newYork), 'UTC and America/New_York builds differ');
+    assert.ok(utc.equals(tokyo), 'UTC and Asia/Tokyo builds differ');
+  });
+}
+
+test('deterministic Bambu output hashes every UUID', async () => {
+  const build = await buildInTimeZone('UTC', 'bambu');
+  const directory = await unzipper.Open.buffer(build);
+  const uuids: string[] = [];
+  for (const file of directory.files) {
+    if (!file.path.endsWith('.model')) continue;
+    const xml = (await file.buffer()).toString('utf-8');
+    uuids.push(...Array.from(xml.matchAll(/p:UUID="([^"]+)"/g), (match) => match[1]));
+  }
+
+  assert.ok(uuids.length > 0);
+  for (const uuid of uuids) {
+    assert.match(uuid, /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  }
+  assert.equal(new Set(uuids).size, uuids.length, 'UUIDs repeat');
+});
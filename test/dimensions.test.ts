@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF } from '../src';
+import { SizeConfig } from '../src/config';
+import { computeDimensions } from '../src/dimensions';
+import { buildTestDesign, silenceConsole } from './fixtures';
+
+silenceConsole();
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+test('every size target gives the scale that fits it', () => {
+  // A 40 x 30 pixel image
+  const cases: [SizeConfig | undefined, number][] = [
+    [undefined, 2.5],
+    [{ longestEdge: 50 }, 1.25],
+    [{ longestEdge: 50, margin: 5 }, 1],
+    [{ width: 60, margin: 5 }, 1.25],
+    [{ height: 60 }, 2],
+    [{ width: 100, height: 60 }, 2],
+    [{ width: 60, height: 60 }, 1.5],
+    [{ mmPerPixel: 0.4, margin: 3 }, 0.4],
+  ];
+  for (const [size, scale] of cases) {
+    const dimensions = computeDimensions(size, 40, 30);
+    assert.ok(close(dimensions.scale, scale), `${JSON.stringify(size)}: ${dimensions.scale}mm per pixel`);
+    assert.ok(close(dimensions.widthMm, 40 * scale) && close(dimensions.heightMm, 30 * scale));
+    const margin = size?.margin ?? 0;
+    assert.ok(close(dimensions.totalWidthMm, 40 * scale + 2 * margin));
+    assert.ok(close(dimensions.totalHeightMm, 30 * scale + 2 * margin));
+  }
+});
+
+test('the meshes and their placement follow the configured size', async () => {
+  for (const [size, scale] of [
+    [{ width: 60, margin: 5 }, 1.25],
+    [{ mmPerPixel: 0.5 }, 0.5],
+  ] as [SizeConfig, number][]) {
+    const objects = await read3MF(await buildTestDesign({ size }));
+    // The red square is 12 pixels wide, starting 4 pixels in
+    const red = objects.find((object) => object.color === '#C12E1F')!;
+    const xs = red.mesh.vertices.map((v) => v.x);
+    assert.ok(close(Math.min(...xs), 4 * scale) && close(Math.max(...xs), 16 * scale), `${JSON.stringify(size)}: ${xs}`);
+
+    // Centered on the 256mm plate of the default printer
+    for (const object of objects) {
+      assert.ok(close(object.transform[9], 128 - 20 * scale) && close(object.transform[10], 128 - 15 * scale));
+    }
+  }
+});
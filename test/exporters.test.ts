@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { processImageTo3MF, read3MF, ThreeMFObject } from '../src';
+import { MeshObject } from '../src/3mf';
+import { createTempDir, silenceConsole, writeTestDesign } from './fixtures';
+import { crowdedEdges, meshVolume, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+// The test design in every format, with the objects of its 3MF
+async function exportTestDesign(): Promise<{ dir: string; objects: ThreeMFObject[] }> {
+  const dir = createTempDir();
+  const { imagePath, configPath } = await writeTestDesign(dir, {
+    backing: { color: 'white', thickness: 1 },
+    formats: ['3mf', 'stl', 'obj', 'svg', 'scad'],
+  });
+  const outputPath = path.join(dir, 'design.3mf');
+  await processImageTo3MF(imagePath, configPath, outputPath, { deterministic: true });
+  return { dir, objects: await read3MF(outputPath) };
+}
+
+// Files of the export next to the 3MF with this extension, in object order
+function exported(dir: string, extension: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.startsWith('design-') && name.endsWith(extension))
+    .sort((a, b) => parseInt(a.slice(7)) - parseInt(b.slice(7)))
+    .map((name) => path.join(dir, name));
+}
+
+// Binary STL as a mesh, with vertices welded by position
+function readStl(filepath: string): MeshObject {
+  const buffer = fs.readFileSync(filepath);
+  const count = buffer.readUInt32LE(80);
+  assert.equal(buffer.length, 84 + count * 50);
+  const mesh: MeshObject = { vertices: [], triangles: [] };
+  const index = new Map<string, number>();
+  const vertex = (offset: number) => {
+    const [x, y, z] = [0, 4, 8].map((k) => buffer.readFloatLE(offset + k));
+    const key = `${x},${y},${z}`;
+    if (!index.has(key)) {
+      index.set(key, mesh.vertices.length);
+      mesh.vertices.push({ x, y, z });
+    }
+    return index.get(key)!;
+  };
+  for (let t = 0; t < count; t++) {
+    const offset = 84 + t * 50 + 12;
+    mesh.triangles.push({ v1: vertex(offset), v2: vertex(offset + 12), v3: vertex(offset + 24) });
+  }
+  return mesh;
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-3 * Math.max(1, Math.abs(b));
+
+test('STL files hold one watertight mesh per object', async () => {
+  const { dir, objects } = await exportTestDesign();
+  const files = exported(dir, '.stl');
+  assert.equal(files.length, objects.length);
+  files.forEach((file, i) => {
+    const mesh = readStl(file);
+    assert.equal(openEdges(mesh), 0, `${path.basename(file)} is not watertight`);
+    assert.equal(crowdedEdges(mesh), 0);
+    assert.ok(close(meshVolume(mesh), meshVolume(objects[i].mesh)), `${path.basename(file)} has another volume`);
+  });
+});
+
+test('the OBJ has an object per color with its filament as material', async () => {
+  const { dir, objects } = await exportTestDesign();
+  const obj = fs.readFileSync(path.join(dir, 'design.obj'), 'utf-8').split('\n');
+  const mtl = fs.readFileSync(path.join(dir, 'design.mtl'), 'utf-8');
+
+  const meshes: MeshObject[] = [];
+  const vertices: { x: number; y: number; z: number }[] = [];
+  let materials: string[] = [];
+  for (const line of obj) {
+    const [kind, ...values] = line.split(' ');
+    if (kind === 'o') meshes.push({ vertices, triangles: [] });
+    if (kind === 'v') vertices.push({ x: +values[0], y: +values[1], z: +values[2] });
+    if (kind === 'f') meshes[meshes.length - 1].triangles.push({ v1: +values[0] - 1, v2: +values[1] - 1, v3: +values[2] - 1 });
+    if (kind === 'usemtl') materials.push(values[0]);
+  }
+  assert.ok(obj[1].startsWith('mtllib design.mtl'));
+
+  assert.equal(meshes.length, objects.length);
+  meshes.forEach((mesh, i) => {
+    assert.equal(openEdges(mesh), 0);
+    assert.ok(close(meshVolume(mesh), meshVolume(objects[i].mesh)));
+  });
+  materials = Array.from(new Set(materials));
+  for (const material of materials) assert.ok(mtl.includes(`newmtl ${material}\nKd `), `${material} is not defined`);
+  // Bambu red is #C12E1F
+  assert.match(mtl, /newmtl bambu-lab-pla-basic-red\nKd 0\.7569 0\.1804 0\.1216/);
+});
+
+test('SVG files outline every object from above in its filament color', async () => {
+  const { dir, objects } = await exportTestDesign();
+  const files = exported(dir, '.svg');
+  assert.equal(files.length, objects.length);
+  files.forEach((file, i) => {
+    const svg = fs.readFileSync(file, 'utf-8');
+    assert.match(svg, /width="100mm" height="75mm" viewBox="0 0 100 75"/);
+    assert.ok(svg.includes(`fill="${objects[i].color}"`), `${path.basename(file)} is not ${objects[i].color}`);
+    assert.match(svg, /<path d="M [\d. L]+ Z/);
+  });
+});
+
+test('the OpenSCAD file extrudes the same outlines as the meshes', async () => {
+  const { dir, objects } = await exportTestDesign();
+  const scad = fs.readFileSync(path.join(dir, 'design.scad'), 'utf-8');
+  const pixel = Number(/^pixel = ([\d.]+);/m.exec(scad)![1]);
+
+  // Volume of every color block: the signed area of its polygons (holes run the other way)
+  // times the height of their layer
+  const blocks = scad.split(/\ncolor\("/).slice(1);
+  assert.equal(blocks.length, objects.length);
+  blocks.forEach((block, i) => {
+    assert.ok(block.startsWith(objects[i].color!), `block ${i + 1} is not ${objects[i].color}`);
+    let volume = 0;
+    for (const layer of block.split(/\n {2}layer\(/).slice(1)) {
+      const [zBottom, zTop] = layer.slice(0, layer.indexOf(')')).split(', ').map(Number);
+      for (const [, points, paths] of layer.matchAll(/polygon\(points = (\[.*?\]), paths = (\[.*?\])\);/g)) {
+        const coords: number[][] = JSON.parse(points);
+        for (const ring of JSON.parse(paths) as number[][]) {
+          for (let k = 0; k < ring.length; k++) {
+            const [ax, ay] = coords[ring[k]];
+            const [bx, by] = coords[ring[(k + 1) % ring.length]];
+            volume += ((ax * by - bx * ay) / 2) * pixel * pixel * (zTop - zBottom);
+          }
+        }
+      }
+    }
+    assert.ok(close(volume, meshVolume(objects[i].mesh)), `block ${i + 1}: ${volume} != ${meshVolume(objects[i].mesh)}`);
+  });
+  assert.ok(!scad.includes('surface('));
+});
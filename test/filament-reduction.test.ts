@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { generateConfigFromImage, processImageTo3MF, read3MF } from '../src';
+import { colorDistance, hexToRgb } from '../src/colors';
+import { readConfig } from '../src/config';
+import { assignFilaments } from '../src/filament-reduction';
+import { BUNDLED_CATALOGS } from '../src/filaments';
+import { createTempDir, silenceConsole, writeTestImage } from './fixtures';
+
+silenceConsole();
+
+test('reduction picks the filaments with the least total error over all colors', () => {
+  const catalog = BUNDLED_CATALOGS['bambu-pla-basic'];
+  const colors = ['#f0e020', '#e07010', '#20a040', '#103080', '#c02020', '#808080'];
+  const pixelCounts = new Map(colors.map((hex, i) => [hex, 100 * (i + 1)]));
+  const error = (hex: string, filamentHex: string) => colorDistance(hexToRgb(hex), hexToRgb(filamentHex), 'lab');
+
+  for (const maxFilaments of [1, 2, 3]) {
+    const assignments = assignFilaments(colors, [catalog], 'lab', maxFilaments, pixelCounts);
+    const used = new Set(assignments.map((assignment) => assignment.filament.hex));
+    assert.ok(used.size <= maxFilaments);
+    for (const assignment of assignments) {
+      assert.equal(assignment.distance, Math.min(...Array.from(used, (hex) => error(assignment.hex, hex))));
+    }
+
+    // Every set of filaments of that size does at least as badly
+    const total = assignments.reduce((sum, a) => sum + pixelCounts.get(a.hex)! * a.distance, 0);
+    let best = Infinity;
+    const search = (start: number, chosen: string[]) => {
+      if (chosen.length === maxFilaments) {
+        const cost = colors.reduce(
+          (sum, hex) => sum + pixelCounts.get(hex)! * Math.min(...chosen.map((filament) => error(hex, filament))),
+          0
+        );
+        best = Math.min(best, cost);
+        return;
+      }
+      for (let j = start; j < catalog.filaments.length; j++) search(j + 1, [...chosen, catalog.filaments[j].hex]);
+    };
+    search(0, []);
+    assert.ok(Math.abs(total - best) < 1e-9, `${maxFilaments} filaments: ${total} instead of ${best}`);
+  }
+});
+
+test('merged colors share a filament and an extruder and show their error in the config', async () => {
+  const dir = createTempDir();
+  const imagePath = await writeTestImage(dir);
+  const configPath = path.join(dir, 'shapes.jsonc');
+  await generateConfigFromImage(imagePath, configPath, { maxFilaments: 2 });
+
+  // The 16 white pixels in the ring and the 80 black ones cost least merged into the others
+  const config = readConfig(configPath);
+  assert.deepEqual(
+    Object.entries(config.colors).map(([hex, color]) => [hex, color.color]),
+    [
+      ['#ff0000', 'red'],
+      ['#0000ff', 'blue'],
+      ['#000000', 'blue'],
+      ['#ffffff', 'red'],
+    ]
+  );
+  for (const color of Object.values(config.colors)) assert.ok(color.error! > 0);
+  const text = fs.readFileSync(configPath, 'utf-8');
+  assert.match(text, /\/\/ {3}red \(bambu-pla-basic\): #ff0000 \(error [\d.]+\), #ffffff \(error [\d.]+\)/);
+  assert.match(text, /\/\/ {3}blue \(bambu-pla-basic\): #0000ff \(error [\d.]+\), #000000 \(error [\d.]+\)/);
+
+  // Colors of the same height and filament are printed as one object
+  const outputPath = path.join(dir, 'design.3mf');
+  await processImageTo3MF(imagePath, configPath, outputPath, { deterministic: true });
+  assert.deepEqual(
+    (await read3MF(outputPath)).map((object) => [object.name, object.extruder]),
+    [
+      ['Bambu Lab PLA Basic red', 1],
+      ['Bambu Lab PLA Basic blue', 2],
+    ]
+  );
+});
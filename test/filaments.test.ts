@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BUNDLED_CATALOGS, generateConfigFromImage, loadFilamentCatalog, processImageTo3MF, read3MF } from '../src';
+import { readConfig } from '../src/config';
+import { loadFilamentCatalogs } from '../src/filaments';
+import { createTempDir, silenceConsole, writeTestImage } from './fixtures';
+
+silenceConsole();
+
+const ACME = {
+  brand: 'Acme',
+  material: 'PLA',
+  type: 'PLA',
+  filaments: [
+    { name: 'crimson', hex: '#B01020' },
+    { name: 'navy', hex: '1020A0' },
+    { name: 'ink', hex: '#101010', brand: 'Acme Pro' },
+    { name: 'paper', hex: '#F8F8F8', td: 2 },
+  ],
+};
+
+test('user catalogs are loaded relative to the config, with the file brand for every entry', () => {
+  const dir = createTempDir();
+  fs.mkdirSync(path.join(dir, 'catalogs'));
+  fs.writeFileSync(path.join(dir, 'catalogs', 'acme.json'), JSON.stringify(ACME));
+  fs.writeFileSync(path.join(dir, 'plain.jsonc'), '// one filament\n[{ "name": "teal", "hex": "#008080" }]');
+
+  const [acme, plain, basic] = loadFilamentCatalogs(['catalogs/acme.json', 'plain.jsonc', 'bambu-pla-basic'], dir);
+  assert.equal(acme.id, 'catalogs/acme.json');
+  assert.deepEqual(acme.filaments[1], {
+    name: 'navy',
+    hex: '#1020A0',
+    rgb: { r: 0x10, g: 0x20, b: 0xa0 },
+    brand: 'Acme',
+    material: 'PLA',
+    type: 'PLA',
+    td: undefined,
+  });
+  assert.equal(acme.filaments[2].brand, 'Acme Pro');
+  assert.equal(acme.filaments[3].td, 2);
+  assert.equal(plain.filaments[0].hex, '#008080');
+  assert.equal(basic, BUNDLED_CATALOGS['bambu-pla-basic']);
+});
+
+test('invalid catalogs are named in the error', () => {
+  const dir = createTempDir();
+  fs.writeFileSync(path.join(dir, 'bad.json'), JSON.stringify([{ name: 'grey', hex: '#GGGGGG' }]));
+  assert.throws(() => loadFilamentCatalog('missing.json', dir), /Unknown filament catalog "missing.json"/);
+  assert.throws(() => loadFilamentCatalog('bad.json', dir), /bad.json: entry 0 needs a "name" and a "hex" color/);
+});
+
+test('colors are suggested from the selected catalogs and exported with their identity', async () => {
+  const dir = createTempDir();
+  fs.writeFileSync(path.join(dir, 'acme.json'), JSON.stringify(ACME));
+  const imagePath = await writeTestImage(dir);
+  const configPath = path.join(dir, 'shapes.jsonc');
+  await generateConfigFromImage(imagePath, configPath, { filaments: ['acme.json'] });
+
+  const config = readConfig(configPath);
+  assert.deepEqual(
+    Object.entries(config.colors).map(([hex, color]) => [hex, color.color, color.catalog]),
+    [
+      ['#ff0000', 'crimson', 'acme.json'],
+      ['#0000ff', 'navy', 'acme.json'],
+      ['#000000', 'ink', 'acme.json'],
+      ['#ffffff', 'paper', 'acme.json'],
+    ]
+  );
+
+  const outputPath = path.join(dir, 'design.3mf');
+  await processImageTo3MF(imagePath, configPath, outputPath, { deterministic: true });
+  assert.deepEqual(
+    (await read3MF(outputPath)).map((object) => [object.name, object.color]),
+    [
+      ['Acme PLA crimson', '#B01020'],
+      ['Acme PLA navy', '#1020A0'],
+      ['Acme Pro PLA ink', '#101010'],
+      ['Acme PLA paper', '#F8F8F8'],
+    ]
+  );
+});
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mock } from 'node:test';
+import { Jimp } from 'jimp';
+import { generateConfigFromImage, processImageTo3MF } from '../src';
+import { ConfigOptions, readConfig, writeConfig } from '../src/config';
+
+const tempDirs: string[] = [];
+process.on('exit', () => tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+// A fresh temporary directory, removed when the test process exits
+export function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'img-to-3mf-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// The processor reports its progress on the console; keep test output readable
+export function silenceConsole(): void {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+}
+
+// A small image with three colors on a white background: a red square, a blue ring around
+// a hole and a black bar touching the red square, so regions meet along shared borders
+export async function writeTestImage(dir: string): Promise<string> {
+  const width = 40;
+  const height = 30;
+  const image = new Jimp({ width, height, color: 0xffffffff });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color: number | undefined;
+      if (x >= 4 && x < 16 && y >= 4 && y < 16) color = 0xff0000ff;
+      if (x >= 16 && x < 20 && y >= 6 && y < 26) color = 0x000000ff;
+      if (x >= 24 && x < 36 && y >= 8 && y < 20 && !(x >= 28 && x < 32 && y >= 12 && y < 16)) color = 0x0000ffff;
+      if (color !== undefined) image.setPixelColor(color, x, y);
+    }
+  }
+
+  const imagePath = path.join(dir, 'shapes.png');
+  await image.write(imagePath as `${string}.png`);
+  return imagePath;
+}
+
+// A horizontal ramp from black to white above a red to white one, for blending
+export async function writeGradientImage(dir: string): Promise<string> {
+  const width = 40;
+  const height = 20;
+  const image = new Jimp({ width, height, color: 0xffffffff });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shade = Math.round((x * 255) / (width - 1));
+      const red = y < height / 2 ? shade : 255;
+      image.setPixelColor(((red << 24) | (shade << 16) | (shade << 8) | 0xff) >>> 0, x, y);
+    }
+  }
+
+  const imagePath = path.join(dir, 'gradient.png');
+  await image.write(imagePath as `${string}.png`);
+  return imagePath;
+}
+
+// Test image plus a generated config for it, with the options given. Every color gets its
+// own height so filament changes can be planned for it.
+export async function writeTestDesign(
+  dir: string,
+  options: ConfigOptions = {},
+  writeImage: (dir: string) => Promise<string> = writeTestImage
+): Promise<{ imagePath: string; configPath: string }> {
+  const imagePath = await writeImage(dir);
+  const configPath = imagePath.replace(/\.png$/, '.jsonc');
+  await generateConfigFromImage(imagePath, configPath);
+
+  const config = readConfig(configPath);
+  Object.values(config.colors).forEach((color, index) => (color.height = 0.8 + 0.4 * index));
+  config.options = { ...config.options, ...options };
+  writeConfig(configPath, config);
+  return { imagePath, configPath };
+}
+
+// Build a test image (by default the shapes) with these config options and command-line
+// overrides, in deterministic mode so builds can be compared byte for byte
+export async function buildTestDesign(
+  options: ConfigOptions,
+  overrides: ConfigOptions = {},
+  writeImage: (dir: string) => Promise<string> = writeTestImage
+): Promise<Buffer> {
+  const dir = createTempDir();
+  const { imagePath, configPath } = await writeTestDesign(dir, options, writeImage);
+  const outputPath = path.join(dir, 'design.3mf');
+  await processImageTo3MF(imagePath, configPath, outputPath, { ...overrides, deterministic: true });
+  return fs.readFileSync(outputPath);
+}
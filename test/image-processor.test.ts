@@ -0,0 +1,140 @@
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Jimp } from 'jimp';
+import { ColorMetric } from '../src/color-science';
+import { analyzeImage, isBackgroundAt, NO_COLOR, pixelColorAt, processImage } from '../src/image-processor';
+import { createTempDir } from './fixtures';
+
+// A photo-sized image of smooth gradients through most hues with noise on every pixel, like
+// a photo: far more colors than clusters, and far more clusters than palette entries
+async function writePhoto(dir: string, size: number): Promise<string> {
+  const image = new Jimp({ width: size, height: size, color: 0xffffffff });
+  const data = image.bitmap.data;
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return Math.floor((seed / 2147483647) * 13) - 6;
+  };
+  const channel = (value: number) => Math.max(0, Math.min(255, Math.round(value + noise())));
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 4;
+      data[i] = channel((x * 255) / size);
+      data[i + 1] = channel((y * 255) / size);
+      data[i + 2] = channel(128 + 127 * Math.sin((x + y) / 60));
+    }
+  }
+
+  const imagePath = path.join(dir, 'photo.png');
+  await image.write(imagePath as `${string}.png`);
+  return imagePath;
+}
+
+test('photos cluster quickly by every metric', { timeout: 60000 }, async () => {
+  const size = 1000;
+  const imagePath = await writePhoto(createTempDir(), size);
+  assert.ok((await analyzeImage(imagePath)).colors.size > 100000);
+
+  for (const metric of ['rgb', 'lab', 'ciede2000'] as ColorMetric[]) {
+    const started = Date.now();
+    const image = await processImage(imagePath, { colorMetric: metric, background: { strategy: 'none' } });
+    const elapsed = Date.now() - started;
+    // Comparing every color with every later one took hours at this size
+    assert.ok(elapsed < 20000, `${metric} clustering took ${elapsed}ms`);
+
+    // The palette is the most common clusters, each holding its own pixels
+    assert.equal(image.modalColors.length, 16);
+    let foreground = 0;
+    for (const count of image.modalPixelCounts.values()) {
+      assert.ok(count > 0);
+      foreground += count;
+    }
+    assert.equal(foreground, size * size);
+  }
+});
+
+test('large images are indexed per pixel behind the accessors', { timeout: 60000 }, async () => {
+  // A 2000 x 2000 white image with a red disc and a blue frame around a white window,
+  // which is enclosed and so not background
+  const size = 2000;
+  const image = new Jimp({ width: size, height: size, color: 0xffffffff });
+  const data = image.bitmap.data;
+  const colorAt = (x: number, y: number) => {
+    if ((x - 600) ** 2 + (y - 600) ** 2 < 400 ** 2) return [255, 0, 0];
+    if (x >= 1100 && x < 1900 && y >= 1100 && y < 1900 && !(x >= 1300 && x < 1700 && y >= 1300 && y < 1700)) return [0, 0, 255];
+    return [255, 255, 255];
+  };
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) data.set(colorAt(x, y), (y * size + x) * 4);
+  }
+  const imagePath = path.join(createTempDir(), 'large.png');
+  await image.write(imagePath as `${string}.png`);
+
+  const started = Date.now();
+  const processed = await processImage(imagePath, { background: { strategy: 'flood' } });
+  const elapsed = Date.now() - started;
+  assert.ok(elapsed < 20000, `processing took ${elapsed}ms`);
+
+  assert.ok(processed.colorIndices instanceof Uint8Array && processed.colorIndices.length === size * size);
+  assert.deepEqual(processed.modalColors.slice().sort(), ['#0000ff', '#ff0000', '#ffffff']);
+  const samples: [number, number, string, boolean][] = [
+    [0, 0, '', true],
+    [600, 600, '#ff0000', false],
+    [1000, 1000, '', true],
+    [1150, 1500, '#0000ff', false],
+    [1500, 1500, '#ffffff', false],
+    [1999, 1999, '', true],
+  ];
+  for (const [x, y, color, background] of samples) {
+    assert.equal(pixelColorAt(processed, x, y), color, `color at ${x},${y}`);
+    assert.equal(isBackgroundAt(processed, x, y), background, `background at ${x},${y}`);
+  }
+
+  // Background pixels have no color; the rest are counted under theirs
+  let background = 0;
+  for (let i = 0; i < size * size; i++) {
+    if (processed.backgroundMask[i]) {
+      assert.equal(processed.colorIndices[i], NO_COLOR);
+      background++;
+    }
+  }
+  assert.equal(processed.modalPixelCounts.get('#ffffff'), 400 * 400);
+  assert.equal(processed.modalPixelCounts.get('#0000ff'), 800 * 800 - 400 * 400);
+  const foreground = Array.from(processed.modalPixelCounts.values()).reduce((sum, count) => sum + count, 0);
+  assert.equal(background + foreground, size * size);
+});
+
+test('anti-aliased edge pixels go to the regions they blend between', async () => {
+  // Black on the left and a red square on a white background, with one pixel of blend
+  // along each edge: closer to the color in the top half, closer to white below
+  const [width, height] = [60, 40];
+  const image = new Jimp({ width, height, color: 0xffffffff });
+  const paint = (from: number, to: number, y: number, color: number[]) => {
+    for (let x = from; x < to; x++) image.bitmap.data.set(color, (y * width + x) * 4);
+  };
+  for (let y = 0; y < height; y++) {
+    const top = y < height / 2;
+    paint(0, 18, y, [0, 0, 0]);
+    paint(18, 19, y, top ? [0x50, 0x50, 0x50] : [0xb0, 0xb0, 0xb0]);
+    if (y >= 10 && y < 30) {
+      paint(35, 36, y, top ? [255, 70, 70] : [255, 160, 160]);
+      paint(36, 46, y, [255, 0, 0]);
+    }
+  }
+  const imagePath = path.join(createTempDir(), 'edges.png');
+  await image.write(imagePath as `${string}.png`);
+
+  // Without antialias the blends survive as colors of their own
+  const options = { background: { strategy: 'color' as const, color: '#ffffff' } };
+  const plain = await processImage(imagePath, options);
+  assert.deepEqual(plain.modalColors.slice().sort(), ['#000000', '#505050', '#b0b0b0', '#ff0000', '#ff4646', '#ffa0a0']);
+
+  const resolved = await processImage(imagePath, { ...options, antialias: true });
+  assert.deepEqual(resolved.modalColors.slice().sort(), ['#000000', '#ff0000']);
+  assert.equal(pixelColorAt(resolved, 18, 5), '#000000');
+  assert.ok(isBackgroundAt(resolved, 18, 35));
+  assert.equal(pixelColorAt(resolved, 35, 15), '#ff0000');
+  assert.ok(isBackgroundAt(resolved, 35, 25));
+});
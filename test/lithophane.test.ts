@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF } from '../src';
+import { LithophaneConfig } from '../src/config';
+import { createLithophaneMesh } from '../src/lithophane';
+import { buildTestDesign, silenceConsole, writeGradientImage } from './fixtures';
+import { crowdedEdges, degenerateTriangles, meshVolume, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+// Luminance rising from black on the left to white on the right
+function ramp(width: number, height: number): Float32Array {
+  const luminance = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) luminance[y * width + x] = x / (width - 1);
+  }
+  return luminance;
+}
+
+test('lithophane panels of every shape are watertight with positive volume', () => {
+  const configs: LithophaneConfig[] = [
+    { color: 'white' },
+    { color: 'white', invert: true },
+    { color: 'white', frame: { width: 2 } },
+    { color: 'white', shape: 'curved' },
+    { color: 'white', shape: 'curved', angle: 180, frame: { width: 1, thickness: 2 } },
+  ];
+  for (const lithophane of configs) {
+    const { mesh } = createLithophaneMesh(ramp(20, 10), 20, 10, lithophane, 1);
+    const name = JSON.stringify(lithophane);
+    assert.equal(openEdges(mesh), 0, `${name} is not watertight`);
+    assert.equal(crowdedEdges(mesh), 0, `${name} has crowded edges`);
+    assert.equal(degenerateTriangles(mesh), 0, `${name} has degenerate triangles`);
+    assert.ok(meshVolume(mesh) > 0, `${name} is inside out`);
+  }
+});
+
+test('flat panel thickness follows the brightness between the limits', () => {
+  const lithophane: LithophaneConfig = { color: 'white', minThickness: 1, maxThickness: 3 };
+  const white = createLithophaneMesh(new Float32Array(200).fill(1), 20, 10, lithophane, 0.5);
+  const black = createLithophaneMesh(new Float32Array(200).fill(0), 20, 10, lithophane, 0.5);
+  assert.deepEqual([white.widthMm, white.depthMm], [10, 5]);
+  assert.ok(Math.abs(meshVolume(white.mesh) - 50 * 3) < 1e-9);
+  assert.ok(Math.abs(meshVolume(black.mesh) - 50 * 1) < 1e-9);
+
+  // Inverted, the dark side of the ramp is the thick one
+  const heightAt = (mesh: typeof white.mesh, x: number) =>
+    Math.max(...mesh.vertices.filter((v) => Math.abs(v.x - x) < 1e-9).map((v) => v.z));
+  const normal = createLithophaneMesh(ramp(20, 10), 20, 10, lithophane, 0.5).mesh;
+  const inverted = createLithophaneMesh(ramp(20, 10), 20, 10, { ...lithophane, invert: true }, 0.5).mesh;
+  assert.ok(heightAt(normal, 0) < heightAt(normal, 10));
+  assert.ok(heightAt(inverted, 0) > heightAt(inverted, 10));
+
+  // The frame is a border at maxThickness around the image
+  const framed = createLithophaneMesh(new Float32Array(200).fill(0), 20, 10, { ...lithophane, frame: { width: 1 } }, 0.5);
+  assert.deepEqual([framed.widthMm, framed.depthMm], [12, 7]);
+  assert.ok(meshVolume(framed.mesh) > 84 * 1 && meshVolume(framed.mesh) < 84 * 3);
+});
+
+test('a lithophane design is one watertight panel', async () => {
+  const objects = await read3MF(
+    await buildTestDesign({ lithophane: { color: 'white', frame: { width: 5 }, shape: 'curved' } }, {}, writeGradientImage)
+  );
+  assert.equal(objects.length, 1);
+  assert.equal(objects[0].color, '#FFFFFF');
+  assert.equal(openEdges(objects[0].mesh), 0);
+  assert.ok(meshVolume(objects[0].mesh) > 0);
+});
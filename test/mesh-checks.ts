@@ -0,0 +1,63 @@
+import { MeshObject } from '../src/3mf';
+
+// Edges that are not shared by exactly one other triangle running the opposite way. A closed,
+// consistently oriented (watertight) mesh has none.
+export function openEdges(mesh: MeshObject): number {
+  const directed = new Map<string, number>();
+  for (const t of mesh.triangles) {
+    for (const [a, b] of [[t.v1, t.v2], [t.v2, t.v3], [t.v3, t.v1]]) {
+      directed.set(`${a},${b}`, (directed.get(`${a},${b}`) ?? 0) + 1);
+    }
+  }
+
+  let open = 0;
+  for (const [edge, count] of directed) {
+    const [a, b] = edge.split(',');
+    if (count !== 1 || directed.get(`${b},${a}`) !== 1) open++;
+  }
+  return open;
+}
+
+// Enclosed volume, positive when the triangles face outwards
+export function meshVolume(mesh: MeshObject): number {
+  let volume = 0;
+  for (const t of mesh.triangles) {
+    const a = mesh.vertices[t.v1];
+    const b = mesh.vertices[t.v2];
+    const c = mesh.vertices[t.v3];
+    volume += (a.x * (b.y * c.z - b.z * c.y) - a.y * (b.x * c.z - b.z * c.x) + a.z * (b.x * c.y - b.y * c.x)) / 6;
+  }
+  return volume;
+}
+
+// Triangles with no area
+export function degenerateTriangles(mesh: MeshObject): number {
+  return mesh.triangles.filter((t) => surfaceArea({ vertices: mesh.vertices, triangles: [t] }) < 1e-12).length;
+}
+
+// Edges of more than two triangles once vertices at the same position are merged, as
+// slicers report them. Coincident faces of touching shells show up here.
+export function crowdedEdges(mesh: MeshObject): number {
+  const positions = mesh.vertices.map((v) => `${v.x},${v.y},${v.z}`);
+  const counts = new Map<string, number>();
+  for (const t of mesh.triangles) {
+    for (const [a, b] of [[t.v1, t.v2], [t.v2, t.v3], [t.v3, t.v1]]) {
+      const key = [positions[a], positions[b]].sort().join('|');
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.values()).filter((count) => count > 2).length;
+}
+
+export function surfaceArea(mesh: MeshObject): number {
+  let area = 0;
+  for (const t of mesh.triangles) {
+    const a = mesh.vertices[t.v1];
+    const b = mesh.vertices[t.v2];
+    const c = mesh.vertices[t.v3];
+    const u = { x: b.x - a.x, y: b.y - a.y, z: b.z - a.z };
+    const v = { x: c.x - a.x, y: c.y - a.y, z: c.z - a.z };
+    area += Math.hypot(u.y * v.z - u.z * v.y, u.z * v.x - u.x * v.z, u.x * v.y - u.y * v.x) / 2;
+  }
+  return area;
+}
@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF, ThreeMFObject } from '../src';
+import { LabelGrid, LabelSpan, Point2D, RegionPolygon, extrudePolygons, extrudeSteps, traceRegions, tracePartition } from '../src/mesher';
+import { buildTestDesign, silenceConsole } from './fixtures';
+import { crowdedEdges, degenerateTriangles, meshVolume, openEdges, surfaceArea } from './mesh-checks';
+
+silenceConsole();
+
+// Small deterministic pseudo-random numbers, so failures can be reproduced
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function randomGrid(next: () => number, width: number, height: number, labelCount: number): LabelGrid {
+  const labels = new Int32Array(width * height);
+  for (let i = 0; i < labels.length; i++) {
+    labels[i] = Math.floor(next() * (labelCount + 1)) - 1;
+  }
+  return { width, height, labels };
+}
+
+// Volume and surface area of the pixel columns a mesh should enclose
+function columnVolume(grid: LabelGrid, spans: Map<number, LabelSpan>, scale: number): number {
+  let volume = 0;
+  for (const label of grid.labels) {
+    const span = spans.get(label);
+    if (span) volume += (span.top - span.bottom) * scale * scale;
+  }
+  return volume;
+}
+
+function columnArea(grid: LabelGrid, spans: Map<number, LabelSpan>, scale: number): number {
+  const { width, height, labels } = grid;
+  const spanAt = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? undefined : spans.get(labels[y * width + x]);
+  const length = (span: LabelSpan | undefined) => (span ? span.top - span.bottom : 0);
+  // Height over which one side of a pixel edge is solid and the other isn't
+  const exposed = (a: LabelSpan | undefined, b: LabelSpan | undefined) => {
+    const overlap = a && b ? Math.max(0, Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom)) : 0;
+    return length(a) + length(b) - 2 * overlap;
+  };
+
+  let area = 0;
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      const span = spanAt(x, y);
+      if (span && x < width && y < height) area += 2 * scale * scale;
+      area += exposed(spanAt(x - 1, y), span) * scale;
+      area += exposed(spanAt(x, y - 1), span) * scale;
+    }
+  }
+  return area;
+}
+
+// Labels that never decrease along x or y. With heights rising by label, no two columns
+// only touch along an edge.
+function risingGrid(next: () => number, width: number, height: number, labelCount: number): LabelGrid {
+  const rise = (length: number) => {
+    let total = 0;
+    return Array.from({ length }, () => (total += next() * (labelCount / (width + height))));
+  };
+  const xs = rise(width);
+  const ys = rise(height);
+  const labels = new Int32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      labels[y * width + x] = Math.min(labelCount - 1, Math.floor(xs[x] + ys[y]));
+    }
+  }
+  return { width, height, labels };
+}
+
+test('extruded regions are watertight', () => {
+  const next = random(1);
+  for (let n = 0; n < 20; n++) {
+    const grid = randomGrid(next, 12, 9, 3);
+    const mesh = extrudePolygons(traceRegions(grid), 0, 1.5, 0.5);
+    assert.equal(openEdges(mesh), 0);
+    assert.ok(Math.abs(meshVolume(mesh) - columnVolume(grid, new Map([0, 1, 2].map((l) => [l, { bottom: 0, top: 1.5 }])), 0.5)) < 1e-6);
+  }
+});
+
+// Every pixel corner along the rectangle from (x0, y0) to (x1, y1), counter-clockwise or
+// clockwise, as traced rings keep them where other regions meet this one
+function pixelRing(x0: number, y0: number, x1: number, y1: number, counterClockwise: boolean): Point2D[] {
+  const ring: Point2D[] = [];
+  for (let x = x0; x < x1; x++) ring.push({ x, y: y0 });
+  for (let y = y0; y < y1; y++) ring.push({ x: x1, y });
+  for (let x = x1; x > x0; x--) ring.push({ x, y: y1 });
+  for (let y = y1; y > y0; y--) ring.push({ x: x0, y });
+  return counterClockwise ? ring : ring.reverse();
+}
+
+test('regions stay watertight where ear clipping skips collinear ring vertices', () => {
+  // Bridging the hole leaves one triangle whose edges pass through skipped vertices on two sides
+  const polygon: RegionPolygon = { label: 0, outer: pixelRing(0, 0, 9, 3, true), holes: [pixelRing(6, 1, 8, 2, false)] };
+  const mesh = extrudePolygons([polygon], 0, 1, 1);
+  assert.equal(openEdges(mesh), 0);
+  assert.equal(degenerateTriangles(mesh), 0);
+  assert.ok(Math.abs(meshVolume(mesh) - 25) < 1e-9);
+
+  // And for holes anywhere in rings of other sizes
+  const next = random(6);
+  for (let n = 0; n < 200; n++) {
+    const width = 3 + Math.floor(next() * 8);
+    const height = 3 + Math.floor(next() * 8);
+    const x0 = 1 + Math.floor(next() * (width - 2));
+    const y0 = 1 + Math.floor(next() * (height - 2));
+    const x1 = x0 + 1 + Math.floor(next() * (width - x0 - 1));
+    const y1 = y0 + 1 + Math.floor(next() * (height - y0 - 1));
+    const ring: RegionPolygon = { label: 0, outer: pixelRing(0, 0, width, height, true), holes: [pixelRing(x0, y0, x1, y1, false)] };
+    const ringMesh = extrudePolygons([ring], 0, 1, 1);
+    assert.equal(openEdges(ringMesh), 0, `${width}x${height} with a hole from ${x0},${y0} to ${x1},${y1}`);
+    assert.ok(Math.abs(meshVolume(ringMesh) - (width * height - (x1 - x0) * (y1 - y0))) < 1e-9);
+  }
+});
+
+test('shared partitions trace the same border on both sides', () => {
+  const next = random(2);
+  for (let n = 0; n < 20; n++) {
+    const grid = randomGrid(next, 12, 9, 4);
+    const partition = tracePartition(grid);
+    const all = Array.from(partition.values()).flat();
+    const mesh = extrudePolygons(all, 0, 1, 1);
+    assert.equal(openEdges(mesh), 0);
+  }
+});
+
+test('shared meshing gives touching colors the same border in the 3MF', async () => {
+  // The red square and the black bar meet along x = 40mm from y = 35mm to 60mm; each side
+  // has a corner of the other on it
+  const border = (object: ThreeMFObject) =>
+    Array.from(new Set(object.mesh.vertices.filter((v) => v.x === 40 && v.y >= 35 && v.y <= 60).map((v) => v.y))).sort();
+  const objects = await read3MF(await buildTestDesign({ meshing: 'shared' }));
+  const red = objects.find((object) => object.color === '#C12E1F')!;
+  const black = objects.find((object) => object.color === '#161616')!;
+  assert.deepEqual(border(red), [35, 60]);
+  assert.deepEqual(border(black), [35, 60]);
+
+  // Flat regions: the footprints add up to the foreground, so nothing overlaps
+  let footprint = 0;
+  for (const object of objects) {
+    assert.equal(openEdges(object.mesh), 0);
+    footprint += meshVolume(object.mesh) / Math.max(...object.mesh.vertices.map((v) => v.z));
+  }
+  // 144 red, 80 black and 128 blue pixels plus the 16 of the ring's hole, 2.5mm each
+  assert.ok(Math.abs(footprint - 368 * 6.25) < 1e-6);
+});
+
+test('stepped solids with a common bottom are one watertight shell', () => {
+  const next = random(3);
+  for (let n = 0; n < 40; n++) {
+    const grid = randomGrid(next, 10, 8, 5);
+    const spans = new Map([0, 1, 2, 3, 4].map((l): [number, LabelSpan] => [l, { bottom: 0.16, top: 0.24 + 0.08 * l }]));
+    const mesh = extrudeSteps(grid, spans, 0.4);
+    assert.equal(openEdges(mesh), 0);
+    assert.equal(degenerateTriangles(mesh), 0);
+    assert.ok(Math.abs(meshVolume(mesh) - columnVolume(grid, spans, 0.4)) < 1e-6);
+    assert.ok(Math.abs(surfaceArea(mesh) - columnArea(grid, spans, 0.4)) < 1e-6);
+  }
+});
+
+test('stepped solids with a common top are one watertight shell', () => {
+  const next = random(4);
+  for (let n = 0; n < 40; n++) {
+    const grid = randomGrid(next, 10, 8, 2);
+    const spans = new Map<number, LabelSpan>([
+      [0, { bottom: 0, top: 2 }],
+      [1, { bottom: 1, top: 2 }],
+    ]);
+    const mesh = extrudeSteps(grid, spans, 0.5);
+    assert.equal(openEdges(mesh), 0);
+    assert.equal(degenerateTriangles(mesh), 0);
+    assert.ok(Math.abs(meshVolume(mesh) - columnVolume(grid, spans, 0.5)) < 1e-6);
+    assert.ok(Math.abs(surfaceArea(mesh) - columnArea(grid, spans, 0.5)) < 1e-6);
+  }
+});
+
+test('stepped solids without diagonal contacts have no crowded edges', () => {
+  const next = random(5);
+  for (let n = 0; n < 20; n++) {
+    const grid = risingGrid(next, 12, 10, 4);
+    const spans = new Map([0, 1, 2, 3].map((l): [number, LabelSpan] => [l, { bottom: 0, top: 0.5 + 0.25 * l }]));
+    assert.equal(crowdedEdges(extrudeSteps(grid, spans, 0.5)), 0);
+  }
+});
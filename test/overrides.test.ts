@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildTestDesign, silenceConsole } from './fixtures';
+
+silenceConsole();
+
+// A command-line override of one nested key must build the same design as a config that
+// sets that key next to the others, and differ from one that only sets the override
+async function assertOverrideKeepsConfig(
+  configured: Parameters<typeof buildTestDesign>[0],
+  overrides: Parameters<typeof buildTestDesign>[1],
+  combined: Parameters<typeof buildTestDesign>[0]
+): Promise<void> {
+  const overridden = await buildTestDesign(configured, overrides);
+  assert.ok(overridden.equals(await buildTestDesign(combined)), 'the override dropped keys of the config');
+  assert.ok(!overridden.equals(await buildTestDesign({}, overrides)), 'the configured keys have no effect');
+}
+
+test('--color-change keeps the configured layer heights', async () => {
+  await assertOverrideKeepsConfig(
+    { colorChange: { layerHeight: 0.12, firstLayerHeight: 0.3 } },
+    { colorChange: { command: 'pause' } },
+    { colorChange: { command: 'pause', layerHeight: 0.12, firstLayerHeight: 0.3 } }
+  );
+});
+
+test('--nozzle keeps the configured minimum feature area', async () => {
+  await assertOverrideKeepsConfig(
+    { cleanup: { minFeatureArea: 150 } },
+    { cleanup: { nozzleDiameter: 0.8 } },
+    { cleanup: { nozzleDiameter: 0.8, minFeatureArea: 150 } }
+  );
+});
+
+test('--quantize keeps the configured palette', async () => {
+  await assertOverrideKeepsConfig(
+    { quantize: { palette: ['#ff0000', '#000000'] } },
+    { quantize: { algorithm: 'kmeans' } },
+    { quantize: { algorithm: 'kmeans', palette: ['#ff0000', '#000000'] } }
+  );
+});
+
+test('--colors keeps the configured algorithm', async () => {
+  await assertOverrideKeepsConfig(
+    { quantize: { algorithm: 'median-cut' } },
+    { quantize: { colors: 2 } },
+    { quantize: { algorithm: 'median-cut', colors: 2 } }
+  );
+});
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF, ThreeMFObject } from '../src';
+import { OUTPUT_PROFILES } from '../src/config';
+import { buildTestDesign, silenceConsole } from './fixtures';
+import { crowdedEdges, meshVolume, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+// What a slicer would load of an object: its name, color and mesh size
+function summarize(object: ThreeMFObject) {
+  return {
+    name: object.name,
+    color: object.color?.toLowerCase(),
+    vertices: object.mesh.vertices.length,
+    triangles: object.mesh.triangles.length,
+    volume: Math.round(meshVolume(object.mesh) * 1000) / 1000,
+  };
+}
+
+test('reads the objects, colors and placement of a Bambu Studio project', async () => {
+  const objects = await read3MF(path.join(__dirname, '../../Two Cubes.3mf'));
+
+  assert.deepEqual(
+    objects.map((object) => [object.name, object.color, object.extruder]),
+    [
+      ['Cube', '#FFFFFF', 4],
+      ['Cube', '#C12E1F', 3],
+    ]
+  );
+  for (const object of objects) {
+    assert.equal(object.mesh.triangles.length, 12);
+    assert.equal(openEdges(object.mesh), 0);
+    assert.equal(object.transform[11], 12.8000002);
+  }
+});
+
+test('every output profile reads back as the same watertight objects', async () => {
+  const options = { backing: { color: 'white', thickness: 1 } };
+  const reference = (await read3MF(await buildTestDesign({ ...options, outputProfile: 'core' }))).map(summarize);
+  assert.ok(reference.length > 1);
+
+  for (const profile of OUTPUT_PROFILES) {
+    const objects = await read3MF(await buildTestDesign({ ...options, outputProfile: profile }));
+    assert.deepEqual(objects.map(summarize), reference, `${profile} output reads back differently`);
+    for (const object of objects) {
+      if (profile !== 'core') assert.ok(object.extruder, `${profile}: ${object.name} has no extruder`);
+      assert.equal(openEdges(object.mesh), 0, `${profile}: ${object.name} is not watertight`);
+      assert.equal(crowdedEdges(object.mesh), 0, `${profile}: ${object.name} has crowded edges`);
+    }
+  }
+});
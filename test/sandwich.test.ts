@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF, ThreeMFObject } from '../src';
+import { SandwichConfig } from '../src/config';
+import { buildTestDesign, silenceConsole } from './fixtures';
+import { crowdedEdges, meshVolume, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+// The test design is 2.5mm per pixel: 144 red, 128 blue and 80 black pixels, and a
+// 16 pixel hole in the blue ring. The colors are 0.8, 1.2, 1.6 and 2mm high.
+const PIXEL_AREA = 6.25;
+const FOREGROUND_AREA = (144 + 128 + 80 + 16) * PIXEL_AREA;
+
+const zRange = (object: ThreeMFObject) => {
+  const zs = object.mesh.vertices.map((v) => v.z);
+  return [Math.min(...zs), Math.max(...zs)];
+};
+
+async function buildSandwich(sandwich: SandwichConfig): Promise<ThreeMFObject[]> {
+  const objects = await read3MF(await buildTestDesign({ sandwich }));
+  for (const object of objects) {
+    assert.equal(openEdges(object.mesh), 0, `${object.name} is not watertight`);
+    assert.equal(crowdedEdges(object.mesh), 0, `${object.name} has crowded edges`);
+    const [bottom, top] = zRange(object);
+    assert.ok(bottom >= 0 && top <= sandwich.thickness + 1e-9, `${object.name} sticks out of the plane`);
+  }
+  // The plane and the inlays fill the plane thickness exactly once: no overlap, no gap
+  const volume = objects.reduce((sum, object) => sum + meshVolume(object.mesh), 0);
+  assert.ok(Math.abs(volume - FOREGROUND_AREA * sandwich.thickness) < 1e-6, `total volume ${volume}`);
+  return objects;
+}
+
+test('sandwich colors are cut out of the plane and filled above', async () => {
+  const objects = await buildSandwich({ color: 'white', thickness: 1.5 });
+  const [plane] = objects;
+  // Above the red (0.8mm) and the blue (1.2mm); the black is cut to the plane
+  assert.ok(Math.abs(meshVolume(plane.mesh) - (144 * 0.7 + 128 * 0.3) * PIXEL_AREA) < 1e-6);
+  assert.deepEqual(zRange(plane), [0.8, 1.5]);
+  for (const object of objects.slice(1)) {
+    assert.equal(zRange(object)[0], 0, `${object.name} does not start on the plate`);
+  }
+});
+
+test('sandwich colors can be filled from below instead', async () => {
+  const objects = await buildSandwich({ color: 'white', thickness: 1.5, fill: 'below' });
+  const [plane] = objects;
+  assert.ok(Math.abs(meshVolume(plane.mesh) - (144 * 0.7 + 128 * 0.3) * PIXEL_AREA) < 1e-6);
+  assert.equal(zRange(plane)[0], 0);
+  for (const object of objects.slice(1)) {
+    assert.ok(Math.abs(zRange(object)[1] - 1.5) < 1e-9, `${object.name} is not flush with the top`);
+  }
+});
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { processImageTo3MF, read3MF } from '../src';
+import { ConfigOptions } from '../src/config';
+import { createTempDir, silenceConsole, writeTestDesign } from './fixtures';
+
+silenceConsole();
+
+// Build the test design into outputs in one directory, at the same time, with the system
+// temp directory pointed at a directory of its own. Returns what is left in both.
+async function buildWithTempDir(
+  options: ConfigOptions,
+  outputs: string[]
+): Promise<{ dir: string; files: string[]; temp: string[] }> {
+  const dir = createTempDir();
+  const systemTemp = createTempDir();
+  const { imagePath, configPath } = await writeTestDesign(dir, options);
+
+  const previous = process.env.TMPDIR;
+  process.env.TMPDIR = systemTemp;
+  try {
+    await Promise.all(
+      outputs.map((output) => processImageTo3MF(imagePath, configPath, path.join(dir, output), { deterministic: true }))
+    );
+  } finally {
+    if (previous === undefined) delete process.env.TMPDIR;
+    else process.env.TMPDIR = previous;
+  }
+  return { dir, files: fs.readdirSync(dir).sort(), temp: fs.readdirSync(systemTemp) };
+}
+
+test('builds leave nothing behind but the outputs', async () => {
+  const { dir, files, temp } = await buildWithTempDir({}, ['a.3mf', 'b.3mf']);
+  assert.deepEqual(files, ['a.3mf', 'b.3mf', 'shapes.jsonc', 'shapes.png']);
+  assert.deepEqual(temp, []);
+
+  // Simultaneous builds don't share anything
+  const a = fs.readFileSync(path.join(dir, 'a.3mf'));
+  assert.ok(a.equals(fs.readFileSync(path.join(dir, 'b.3mf'))));
+  assert.equal((await read3MF(a)).length, 4);
+});
+
+test('keepTemp keeps the intermediate files in the system temp directory', async () => {
+  const { files, temp } = await buildWithTempDir({ keepTemp: true }, ['design.3mf']);
+  assert.deepEqual(files, ['design.3mf', 'shapes.jsonc', 'shapes.png']);
+  assert.equal(temp.length, 1);
+  assert.match(temp[0], /^img-to-3mf-/);
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Jimp } from 'jimp';
+import unzipper from 'unzipper';
+import { ColoredObject } from '../src/3mf';
+import { BAMBU_BASIC_COLORS } from '../src/colors';
+import { extrudePolygons, traceRegions } from '../src/mesher';
+import { RawImage, renderIsometricView, renderPickMap, renderTopView } from '../src/thumbnails';
+import { buildTestDesign, silenceConsole } from './fixtures';
+
+silenceConsole();
+
+const RED = BAMBU_BASIC_COLORS.find((filament) => filament.name === 'red')!;
+
+// A block of width x depth pixels at x, 1mm per pixel
+function block(x: number, width: number, depth: number, height: number): ColoredObject['mesh'] {
+  const labels = new Int32Array((x + width) * depth).fill(-1);
+  for (let row = 0; row < depth; row++) labels.fill(0, row * (x + width) + x, (row + 1) * (x + width));
+  return extrudePolygons(traceRegions({ width: x + width, height: depth, labels }), 0, height, 1);
+}
+
+// Opaque pixel colors with the number of pixels of each
+function pixelColors(image: RawImage): Map<string, number> {
+  const colors = new Map<string, number>();
+  for (let i = 0; i < image.width * image.height; i++) {
+    if (image.data[i * 4 + 3] < 255) continue;
+    const hex = '#' + image.data.toString('hex', i * 4, i * 4 + 3).toUpperCase();
+    colors.set(hex, (colors.get(hex) ?? 0) + 1);
+  }
+  return colors;
+}
+
+// A sampled image color resolved to a filament, next to a color without one
+const objects: ColoredObject[] = [
+  { mesh: block(0, 10, 10, 2), color: '#ff0000', filamentName: 'red', filament: RED },
+  { mesh: block(12, 10, 10, 4), color: '#0000ff', filamentName: '#0000ff' },
+];
+
+test('the top view shows every object in its filament color', () => {
+  const colors = pixelColors(renderTopView(objects, 64));
+  assert.ok(colors.get(RED.hex)! > 100, 'no pixels in the filament color');
+  assert.ok(!colors.has('#FF0000'), 'the image color was drawn instead of the filament');
+  assert.ok(colors.get('#0000FF')! > 100, 'objects without a filament keep their own color');
+});
+
+test('the isometric view shades the filament colors', () => {
+  const colors = pixelColors(renderIsometricView(objects, 64));
+  const reds = Array.from(colors.keys()).filter((hex) => {
+    const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+    return r > 2 * g && r > 2 * b;
+  });
+  // Top and sides are lit differently
+  assert.ok(reds.length >= 2, `red shades: ${reds.join(', ')}`);
+  assert.ok(!colors.has('#FF0000'));
+});
+
+test('the pick map fills every object with its id', () => {
+  const colors = pixelColors(renderPickMap(objects, [1, 0x0203], 64));
+  assert.deepEqual(Array.from(colors.keys()).sort(), ['#010000', '#030200']);
+});
+
+test('the 3MF carries thumbnails of the design in its filament colors', async () => {
+  const directory = await unzipper.Open.buffer(await buildTestDesign({}));
+  const readPng = async (name: string) => {
+    const file = directory.files.find((entry) => entry.path === name)!;
+    const image = await Jimp.fromBuffer(await file.buffer());
+    return pixelColors({ width: image.width, height: image.height, data: image.bitmap.data });
+  };
+
+  // The test image's pure red, blue and black come out as the Bambu filaments
+  const top = await readPng('Metadata/top_1.png');
+  for (const hex of [RED.hex, '#0A2989', '#161616']) {
+    assert.ok(top.get(hex)! > 50, `${hex} is missing from the top view`);
+  }
+
+  const plate = await readPng('Metadata/plate_1.png');
+  assert.ok(plate.size > 8, 'the plate thumbnail is flat');
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { read3MF } from '../src';
+import { TileKeyStyle } from '../src/config';
+import { buildTestDesign, silenceConsole } from './fixtures';
+import { crowdedEdges, openEdges } from './mesh-checks';
+
+silenceConsole();
+
+for (const keys of ['pegs', 'dovetail'] as TileKeyStyle[]) {
+  test(`tiles keyed with ${keys} are watertight without crowded edges`, async () => {
+    // The 100 x 75mm design is split into 2 x 2 tiles for a 60mm plate, with keys along
+    // every cut since the whole image is foreground
+    const build = await buildTestDesign({
+      backing: { color: 'white', thickness: 2 },
+      background: { strategy: 'none' },
+      printer: { width: 60, depth: 60 },
+      tiling: { keys, keySize: 6, keySpacing: 20 },
+    });
+
+    const objects = await read3MF(build);
+    const backings = objects.filter((object) => object.name?.toLowerCase().includes('white'));
+    assert.ok(backings.length >= 4, 'expected a backing on every tile');
+    for (const object of objects) {
+      assert.equal(openEdges(object.mesh), 0, `${object.name} is not watertight`);
+      assert.equal(crowdedEdges(object.mesh), 0, `${object.name} has crowded edges`);
+    }
+  });
+}